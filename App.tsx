@@ -5,23 +5,29 @@
 
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { AppState, Creation } from './types';
-import { generateAnimationAssets, AnimationAssets } from './services/geminiService';
+import { AppState, Caption, Creation, CreationRecord, CreationSource, CreationVersion, GridLayout, Overlay, WatermarkCorner } from './types';
+import { generateAnimationAssets, refineAnimationAssets, regenerateFrame, AnimationAssets } from './services/geminiService';
+import { InlineImage, createImageGenerationProvider, providerRequiresApiKey, resolveProviderId } from './services/imageGenerationProvider';
 import { buildCreativeInstruction, promptSuggestions } from './prompts';
+import { ART_STYLES, ArtStyleId, DEFAULT_STYLE_ID, getArtStyle } from './styles';
+import { SBF_PRESETS } from './presets';
 import AnimationPlayer from './components/AnimationPlayer';
 import LoadingOverlay from './components/LoadingOverlay';
 import CreationsGallery from './components/CreationsGallery';
 import ApiKeyModal from './components/ApiKeyModal';
+import GenerationErrorPanel from './components/GenerationErrorPanel';
+import VariantPicker from './components/VariantPicker';
+import ImportAnimationPanel from './components/ImportAnimationPanel';
+import { ImportedAnimation } from './services/animationImport';
+import { deleteCreations, isStorageFullError, loadCreation, loadCreationRecords, saveCreation, saveCreations, updateCreation } from './services/creationStore';
+import { mapWithConcurrency } from './services/concurrency';
+import PromptTemplateBar from './components/PromptTemplateBar';
+import { PromptTemplate, loadCustomTemplates, saveCustomTemplates } from './services/promptTemplates';
+import { GenerationCancelledError, GenerationError, InvalidApiKeyError } from './services/generationErrors';
+import { GenerationProgress, ProgressCallback } from './services/generationProgress';
+import { DEFAULT_GRID, GRID_PRESETS, describeGrid, frameCountOf } from './services/frameLayout';
 import { UploadIcon, XCircleIcon, ImageIcon, Volume2Icon, VolumeXIcon } from './components/icons';
 
-const SBF_PRESETS = [
-    '/assets/presets/sbf1.png',
-    '/assets/presets/sbf2.png',
-    '/assets/presets/sbf3.png',
-    '/assets/presets/sbf4.png',
-    '/assets/presets/sbf5.png',
-];
-
 const resizeImage = (dataUrl: string, maxWidth: number, maxHeight: number): Promise<string> => {
   const targetSize = maxWidth; 
   return new Promise((resolve, reject) => {
@@ -65,21 +71,79 @@ const resizeImage = (dataUrl: string, maxWidth: number, maxHeight: number): Prom
   });
 };
 
+const PROVIDER_ID = resolveProviderId();
+
+const VARIANT_COUNTS = [1, 2, 3, 4];
+// Parallel requests beyond this mostly just hit rate limits.
+const VARIANT_CONCURRENCY = 2;
+
+const createVersion = (assets: AnimationAssets, instruction?: string, parentId?: string): CreationVersion => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  assets,
+  instruction,
+  parentId,
+  createdAt: new Date().toISOString(),
+});
+
+/** Instructions that led to `versionId`, oldest first, following each version back to its parent. */
+const refinementHistory = (versions: CreationVersion[], versionId: string | null): string[] => {
+  const history: string[] = [];
+  let version = versions.find(v => v.id === versionId);
+  while (version) {
+    if (version.instruction) history.unshift(version.instruction);
+    const parentId = version.parentId;
+    version = parentId ? versions.find(v => v.id === parentId) : undefined;
+  }
+  return history;
+};
+
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.Capturing);
   const [previousAppState, setPreviousAppState] = useState<AppState>(AppState.Capturing);
   const [originalImage, setOriginalImage] = useState<string | null>(null);
+  // The bundled preset `originalImage` came from, so the gallery can filter by it.
+  const [sourcePreset, setSourcePreset] = useState<string | null>(null);
   const [animationAssets, setAnimationAssets] = useState<AnimationAssets | null>(null);
-  const [loadingMessage, setLoadingMessage] = useState<string>('');
+  const [versions, setVersions] = useState<CreationVersion[]>([]);
+  const [activeVersionId, setActiveVersionId] = useState<string | null>(null);
+  const [referenceImage, setReferenceImage] = useState<InlineImage | null>(null);
+  const [captions, setCaptions] = useState<Caption[]>([]);
+  const [overlays, setOverlays] = useState<Overlay[]>([]);
+  const [watermark, setWatermark] = useState<WatermarkCorner | null>(null);
+  const [creationSource, setCreationSource] = useState<CreationSource>('generated');
+  // What an import had to drop to fit, shown above the player until it's closed.
+  const [importNotes, setImportNotes] = useState<string[]>([]);
+  const versionsRef = useRef(versions);
+  versionsRef.current = versions;
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const [generationStartedAt, setGenerationStartedAt] = useState<number>(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [generationError, setGenerationError] = useState<GenerationError | null>(null);
   const [storyPrompt, setStoryPrompt] = useState<string>('');
+  const [gridLayout, setGridLayout] = useState<GridLayout>(DEFAULT_GRID);
+  const [styleId, setStyleId] = useState<ArtStyleId>(DEFAULT_STYLE_ID);
+  const [variantCount, setVariantCount] = useState(1);
+  const [variantCandidates, setVariantCandidates] = useState<AnimationAssets[]>([]);
+  const [failedVariantCount, setFailedVariantCount] = useState(0);
+  const [customTemplates, setCustomTemplates] = useState<PromptTemplate[]>(loadCustomTemplates);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [creations, setCreations] = useState<Creation[]>([]);
+  const promptInputRef = useRef<HTMLTextAreaElement>(null);
+  const [creations, setCreations] = useState<CreationRecord[]>([]);
   const [currentCreationId, setCurrentCreationId] = useState<string | null>(null);
+  const creationsRef = useRef(creations);
+  creationsRef.current = creations;
+  // Saves still being written, by creation id; each resolves to whether it succeeded.
+  const pendingSavesRef = useRef(new Map<string, Promise<boolean>>());
+  const currentCreationIdRef = useRef(currentCreationId);
+  currentCreationIdRef.current = currentCreationId;
+  // Bumped whenever the player's animation goes away, so late results can tell they belong to a closed one.
+  const playerSessionRef = useRef(0);
   const [apiKey, setApiKey] = useState<string | null>(null);
   const [showApiKeyModal, setShowApiKeyModal] = useState<boolean>(false);
   const [apiKeyError, setApiKeyError] = useState<string | null>(null);
   const isAnimationPending = useRef(false);
+  const [apiKeySubmissions, setApiKeySubmissions] = useState(0);
   const [backgroundIndex, setBackgroundIndex] = useState(0);
   const [isMuted, setIsMuted] = useState(true);
   const audioRef = useRef<HTMLAudioElement | null>(null);
@@ -107,14 +171,9 @@ const App: React.FC = () => {
         setApiKey(storedKey);
     }
 
-    try {
-      const storedCreations = localStorage.getItem('gmSbfMemes');
-      if (storedCreations) {
-        setCreations(JSON.parse(storedCreations));
-      }
-    } catch (e) {
-      console.error("Failed to load creations from localStorage", e);
-    }
+    loadCreationRecords()
+      .then(setCreations)
+      .catch(e => console.error("Failed to load creations", e));
     
     setBackgroundIndex(Math.floor(Math.random() * SBF_PRESETS.length));
 
@@ -146,12 +205,10 @@ const App: React.FC = () => {
   };
 
 
-  const FRAME_COUNT = 9;
   const SPRITE_SHEET_WIDTH = 1024;
-  const SPRITE_SHEET_HEIGHT = 1024;
 
   const handleCreateAnimation = useCallback(async (isRegeneration: boolean = false) => {
-    if (!apiKey) {
+    if (providerRequiresApiKey(PROVIDER_ID) && !apiKey) {
       isAnimationPending.current = true;
       setApiKeyError("Please provide a Gemini API key to start making memes.");
       setShowApiKeyModal(true);
@@ -170,19 +227,37 @@ const App: React.FC = () => {
         setStoryPrompt(finalPrompt);
     }
 
-    const finalCreativeInstruction = buildCreativeInstruction(finalPrompt, originalImage, FRAME_COUNT);
+    const frameCount = frameCountOf(gridLayout);
+    // Keep cells square, so strips get a wide, short sheet.
+    const spriteSheetHeight = Math.round(SPRITE_SHEET_WIDTH * gridLayout.rows / gridLayout.columns);
+    const style = getArtStyle(styleId);
+    const finalCreativeInstruction = buildCreativeInstruction(finalPrompt, originalImage, gridLayout, style);
     setPreviousAppState(AppState.Capturing);
     setAppState(AppState.Processing);
+    playerSessionRef.current++;
     setCurrentCreationId(null);
+    setCreationSource('generated');
+    setCaptions([]);
+    setOverlays([]);
+    setWatermark(null);
     setError(null);
+    setGenerationError(null);
+    setGenerationStartedAt(Date.now());
+    setProgress(null);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     
     let base64Image: string | null = null;
     let mimeType: string | null = null;
 
     try {
       if (originalImage) {
-        setLoadingMessage('Optimizing image...');
+        setProgress({ stage: 'resize', message: 'Optimizing image...', attempt: 1, maxAttempts: 1 });
         const resizedImage = await resizeImage(originalImage, 1024, 1024);
+        if (abortController.signal.aborted) {
+          throw new GenerationCancelledError();
+        }
         const imageParts = resizedImage.match(/^data:(image\/(?:jpeg|png|webp));base64,(.*)$/);
         if (!imageParts || imageParts.length !== 3) {
           throw new Error("Could not process the resized image data.");
@@ -190,59 +265,114 @@ const App: React.FC = () => {
         mimeType = imageParts[1];
         base64Image = imageParts[2];
       }
-      
-      setLoadingMessage('Generating sprite sheet...');
 
       const imageGenerationPrompt = `
 PRIMARY GOAL: Generate a single animated sprite sheet image.
-You are an expert animator. Your task is to create a ${FRAME_COUNT}-frame animated sprite sheet.
+You are an expert animator. Your task is to create a ${frameCount}-frame animated sprite sheet.
 ${finalCreativeInstruction}
 IMAGE OUTPUT REQUIREMENTS:
-- The output MUST be a single, square image file.
-- The image MUST be precisely ${SPRITE_SHEET_WIDTH}x${SPRITE_SHEET_HEIGHT} pixels.
-- The image must contain ${FRAME_COUNT} animation frames arranged in a 3x3 grid (3 rows, 3 columns).
+- The output MUST be a single${spriteSheetHeight === SPRITE_SHEET_WIDTH ? ', square' : ''} image file.
+- The image MUST be precisely ${SPRITE_SHEET_WIDTH}x${spriteSheetHeight} pixels.
+- The image must contain ${frameCount} animation frames arranged in a ${describeGrid(gridLayout)}, each cell square and the same size.
 - Do not add numbers to the frames.
-- DO NOT return any text or JSON. Only the image is required.`;
+- Apart from the image, return only the JSON metadata described in the response format above.`;
       
-      const generatedAsset = await generateAnimationAssets(
-          apiKey,
+      const provider = createImageGenerationProvider(PROVIDER_ID, apiKey);
+      const generate = (onProgress: ProgressCallback) => generateAnimationAssets(
+          provider,
           base64Image,
           mimeType,
           imageGenerationPrompt,
-          (message: string) => setLoadingMessage(message)
+          onProgress,
+          { signal: abortController.signal, grid: gridLayout, defaultFrameDuration: style.defaultFrameDuration }
       );
 
+      if (variantCount > 1) {
+        const results = await mapWithConcurrency(
+            Array.from({ length: variantCount }),
+            VARIANT_CONCURRENCY,
+            (_, index) => generate(p => setProgress({ ...p, message: `Variant ${index + 1} of ${variantCount}: ${p.message}` }))
+        );
+        if (abortController.signal.aborted) {
+          throw new GenerationCancelledError();
+        }
+        const candidates = results.flatMap(result => result.status === 'fulfilled' && result.value ? [result.value] : []);
+        if (candidates.length === 0) {
+          // Every variant failed, so surface the first failure like a single generation would.
+          throw (results.find(result => result.status === 'rejected') as PromiseRejectedResult).reason;
+        }
+        setVariantCandidates(candidates);
+        setFailedVariantCount(variantCount - candidates.length);
+        setReferenceImage(base64Image && mimeType ? { data: base64Image, mimeType } : null);
+        setAppState(AppState.ChoosingVariant);
+        return;
+      }
+
+      const generatedAsset = await generate(setProgress);
+
       if (!generatedAsset || !generatedAsset.imageData.data) {
         throw new Error(`Sprite sheet generation failed. Did not receive a valid image.`);
       }
 
+      const firstVersion = createVersion(generatedAsset);
       setAnimationAssets(generatedAsset);
+      setVersions([firstVersion]);
+      setActiveVersionId(firstVersion.id);
+      setReferenceImage(base64Image && mimeType ? { data: base64Image, mimeType } : null);
       setAppState(AppState.Animating);
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      if (err instanceof GenerationCancelledError) {
+          // Cancelling keeps the prompt and image so the user can tweak and try again.
+          setAppState(AppState.Capturing);
+          return;
+      }
       console.error(err);
-      
-      if (errorMessage.toLowerCase().includes('api key') || errorMessage.toLowerCase().includes('quota')) {
-          setApiKeyError(`There was an issue with your API key: ${errorMessage}. Please check it and try again.`);
-          setShowApiKeyModal(true);
+      if (err instanceof GenerationError) {
+          setGenerationError(err);
       } else {
-          setError(errorMessage);
+          setError(err instanceof Error ? err.message : 'An unknown error occurred.');
       }
       setAppState(AppState.Capturing);
+    } finally {
+      if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null;
+      }
     }
-  }, [storyPrompt, originalImage, apiKey]);
+  }, [storyPrompt, originalImage, apiKey, gridLayout, styleId, variantCount]);
+
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
 
   const handleSaveApiKey = (newKey: string) => {
     setApiKey(newKey);
+    setApiKeySubmissions(count => count + 1);
     localStorage.setItem('geminiApiKey', newKey);
     setShowApiKeyModal(false);
     setApiKeyError(null);
+  };
 
-    if (isAnimationPending.current) {
+  // Resume a generation that was waiting on a key once the submitted key is in state. Counting
+  // submissions rather than watching the key means re-entering the same key resumes too.
+  useEffect(() => {
+    if (apiKeySubmissions > 0 && apiKey && isAnimationPending.current) {
         isAnimationPending.current = false;
-        setTimeout(() => handleCreateAnimation(), 0);
+        handleCreateAnimation();
     }
+  }, [apiKeySubmissions, apiKey, handleCreateAnimation]);
+
+  const handleChangeApiKey = () => {
+    isAnimationPending.current = true;
+    setApiKeyError(generationError?.message ?? null);
+    setGenerationError(null);
+    setShowApiKeyModal(true);
+  };
+
+  const handleEditPrompt = () => {
+    setGenerationError(null);
+    promptInputRef.current?.focus();
+    promptInputRef.current?.select();
   };
 
   const handleUploadClick = () => {
@@ -255,6 +385,7 @@ IMAGE OUTPUT REQUIREMENTS:
       const reader = new FileReader();
       reader.onloadend = () => {
         setOriginalImage(reader.result as string);
+        setSourcePreset(null);
       };
       reader.onerror = () => {
         console.error("Failed to read file");
@@ -272,6 +403,7 @@ IMAGE OUTPUT REQUIREMENTS:
         const reader = new FileReader();
         reader.onloadend = () => {
             setOriginalImage(reader.result as string);
+            setSourcePreset(imageUrl);
         };
         reader.readAsDataURL(blob);
     } catch (error) {
@@ -282,47 +414,284 @@ IMAGE OUTPUT REQUIREMENTS:
 
   const handleClearImage = () => {
     setOriginalImage(null);
+    setSourcePreset(null);
     if(fileInputRef.current) {
         fileInputRef.current.value = '';
     }
   };
   
   const handleBackFromPlayer = () => {
+    playerSessionRef.current++;
     setAppState(previousAppState);
     setAnimationAssets(null);
+    setVersions([]);
+    setActiveVersionId(null);
+    setCaptions([]);
+    setOverlays([]);
+    setWatermark(null);
     setCurrentCreationId(null);
+    setImportNotes([]);
+  };
+
+  // Imported animations open like a fresh generation, minus the photo they'd be regenerated from.
+  const handleImportAnimation = ({ assets, notes }: ImportedAnimation, name: string) => {
+    const firstVersion = createVersion(assets);
+    setAnimationAssets(assets);
+    setVersions([firstVersion]);
+    setActiveVersionId(firstVersion.id);
+    setReferenceImage(null);
+    setCaptions([]);
+    setOverlays([]);
+    setWatermark(null);
+    setCurrentCreationId(null);
+    setCreationSource('imported');
+    setImportNotes(notes);
+    setStoryPrompt(name);
+    setPreviousAppState(AppState.Capturing);
+    setAppState(AppState.Animating);
   };
   
-  const handleSuggestionClick = (prompt: string) => {
-    setStoryPrompt(currentPrompt => currentPrompt === prompt ? '' : prompt);
+  const handleCustomTemplatesChange = (templates: PromptTemplate[]) => {
+    setCustomTemplates(templates);
+    try {
+      saveCustomTemplates(templates);
+    } catch (e) {
+      console.error("Failed to save prompt templates to localStorage", e);
+    }
   };
   
+  const reportStorageError = (e: unknown) => {
+    console.error("Failed to save creations", e);
+    if (isStorageFullError(e)) {
+      // Every version keeps its own sprite sheet, so a long refinement session can fill the quota.
+      alert("Your browser's storage is full, so this change wasn't saved. Delete some memes from your collection and try again.");
+    } else {
+      alert("This change couldn't be saved to your collection. Please try again.");
+    }
+  };
+
+  // Async edits (redraws, refinements) finish after a re-render, so always check the latest creations.
+  // Edits made while the creation is still being saved are applied once the save lands.
+  const updateSavedCreation = (creationId: string | null, patch: Partial<Creation>): Promise<void> => {
+    if (!creationId) return Promise.resolve();
+    const pendingSave = pendingSavesRef.current.get(creationId);
+    if (!pendingSave && !creationsRef.current.some(c => c.id === creationId)) return Promise.resolve();
+    return (pendingSave ?? Promise.resolve(true))
+      .then(saved => saved ? updateCreation(creationId, patch) : null)
+      .then(record => {
+        if (record) setCreations(current => current.map(c => c.id === record.id ? record : c));
+      })
+      .catch(reportStorageError);
+  };
+
+  // The player treats these creations as saved straight away; if the write fails they go back to unsaved.
+  const trackSave = (ids: string[], save: Promise<CreationRecord[]>) => {
+    const saved = save.then(records => {
+      creationsRef.current = [...records, ...creationsRef.current];
+      setCreations(current => [...records, ...current]);
+      return true;
+    }, e => {
+      reportStorageError(e);
+      setCurrentCreationId(current => current && ids.includes(current) ? null : current);
+      return false;
+    });
+    ids.forEach(id => pendingSavesRef.current.set(id, saved));
+    saved.then(() => ids.forEach(id => pendingSavesRef.current.delete(id)));
+  };
+
   const handleSaveCreation = (assets: AnimationAssets, prompt: string) => {
     const newCreation: Creation = {
         id: new Date().toISOString(),
         assets,
         prompt,
+        styleId: creationSource === 'generated' ? styleId : undefined,
+        versions,
+        referenceImage: referenceImage ?? undefined,
+        sourcePreset: creationSource === 'generated' ? sourcePreset ?? undefined : undefined,
+        captions,
+        overlays,
+        watermark: watermark ?? undefined,
+        source: creationSource,
     };
-    const updatedCreations = [newCreation, ...creations];
-    setCreations(updatedCreations);
-    localStorage.setItem('gmSbfMemes', JSON.stringify(updatedCreations));
     setCurrentCreationId(newCreation.id);
+    trackSave([newCreation.id], saveCreation(newCreation).then(record => [record]));
+  };
+
+  // Player edits apply to the open version and, once it's saved, to its creation too.
+  const handleAssetsChange = (assets: AnimationAssets) => {
+    const updatedVersions = versionsRef.current.map(v => v.id === activeVersionId ? { ...v, assets } : v);
+    versionsRef.current = updatedVersions;
+    setAnimationAssets(assets);
+    setVersions(updatedVersions);
+    updateSavedCreation(currentCreationId, { assets, versions: updatedVersions });
+  };
+
+  const handleCaptionsChange = (updated: Caption[]) => {
+    setCaptions(updated);
+    updateSavedCreation(currentCreationId, { captions: updated });
   };
 
-  const handleDeleteCreation = (id: string) => {
-    const updatedCreations = creations.filter(c => c.id !== id);
-    setCreations(updatedCreations);
-    localStorage.setItem('gmSbfMemes', JSON.stringify(updatedCreations));
+  const handleOverlaysChange = (updated: Overlay[]) => {
+    setOverlays(updated);
+    updateSavedCreation(currentCreationId, { overlays: updated });
   };
 
-  const handleViewCreation = (creation: Creation) => {
+  const handleWatermarkChange = (corner: WatermarkCorner | null) => {
+    setWatermark(corner);
+    updateSavedCreation(currentCreationId, { watermark: corner ?? undefined });
+  };
+
+  const handleRefine = async (instruction: string, signal: AbortSignal, onProgress: ProgressCallback) => {
+    if (!animationAssets) return;
+    if (providerRequiresApiKey(PROVIDER_ID) && !apiKey) {
+        setApiKeyError("Please provide a Gemini API key to refine memes.");
+        setShowApiKeyModal(true);
+        throw new InvalidApiKeyError('Add a Gemini API key, then send your instruction again.');
+    }
+    const session = playerSessionRef.current;
+    const provider = createImageGenerationProvider(PROVIDER_ID, apiKey);
+    const refined = await refineAnimationAssets(provider, {
+        previous: animationAssets,
+        referenceImage,
+        storyPrompt,
+        history: refinementHistory(versions, activeVersionId),
+        instruction,
+    }, onProgress, { signal });
+    if (signal.aborted) throw new GenerationCancelledError();
+    // The animation was closed while this ran, so there are no versions left to add it to.
+    if (playerSessionRef.current !== session) {
+        throw new GenerationError('The animation was closed before the refinement finished, so its result was not kept.');
+    }
+
+    const version = createVersion(refined, instruction, activeVersionId ?? undefined);
+    const updatedVersions = [...versionsRef.current, version];
+    versionsRef.current = updatedVersions;
+    setVersions(updatedVersions);
+    // Read the id now: the creation may have been saved while the refinement ran.
+    updateSavedCreation(currentCreationIdRef.current, { assets: refined, versions: updatedVersions });
+    setActiveVersionId(version.id);
+    setAnimationAssets(refined);
+  };
+
+  const handleSelectVersion = (id: string) => {
+    const version = versions.find(v => v.id === id);
+    if (!version) return;
+    setActiveVersionId(id);
+    setAnimationAssets(version.assets);
+    updateSavedCreation(currentCreationId, { assets: version.assets });
+  };
+
+  const handleRedrawFrame = async (assets: AnimationAssets, frameIndex: number, signal: AbortSignal): Promise<AnimationAssets> => {
+    if (providerRequiresApiKey(PROVIDER_ID) && !apiKey) {
+        setApiKeyError("Please provide a Gemini API key to redraw frames.");
+        setShowApiKeyModal(true);
+        throw new InvalidApiKeyError('Add a Gemini API key, then try redrawing the frame again.');
+    }
+    const provider = createImageGenerationProvider(PROVIDER_ID, apiKey);
+    return regenerateFrame(provider, assets, frameIndex, storyPrompt, { signal });
+  };
+
+  // Each kept variant becomes its own creation; they share a group id so they stay linked to the prompt.
+  const handleKeepVariants = (kept: AnimationAssets[]) => {
+    setVariantCandidates([]);
+    if (kept.length === 0) {
+        setAppState(AppState.Capturing);
+        return;
+    }
+    const createdAt = new Date().toISOString();
+    const variantGroupId = `variants-${createdAt}`;
+    const keptCreations: Creation[] = kept.map((assets, index) => ({
+        id: `${createdAt}-${index + 1}`,
+        assets,
+        prompt: storyPrompt,
+        styleId,
+        versions: [createVersion(assets)],
+        referenceImage: referenceImage ?? undefined,
+        sourcePreset: sourcePreset ?? undefined,
+        variantGroupId,
+    }));
+    trackSave(keptCreations.map(creation => creation.id), saveCreations(keptCreations));
+
+    const [first] = keptCreations;
+    setAnimationAssets(first.assets);
+    setVersions(first.versions!);
+    setActiveVersionId(first.versions![0].id);
+    setCaptions([]);
+    setOverlays([]);
+    setWatermark(null);
+    setCurrentCreationId(first.id);
+    setPreviousAppState(AppState.Capturing);
+    setAppState(AppState.Animating);
+  };
+
+  const handleDeleteCreations = (ids: string[]): Promise<boolean> =>
+    deleteCreations(ids)
+      .then(() => {
+        setCreations(current => current.filter(c => !ids.includes(c.id)));
+        return true;
+      })
+      .catch(e => {
+        console.error("Failed to delete creation", e);
+        alert(ids.length === 1 ? "That meme couldn't be deleted. Please try again." : "Those memes couldn't be deleted. Please try again.");
+        return false;
+      });
+
+  // Saved records only point at their images, so read those back before opening the creation.
+  const loadSavedCreation = async (record: CreationRecord): Promise<Creation | null> => {
+    try {
+      return await loadCreation(record);
+    } catch (e) {
+      console.error("Failed to load creation", e);
+      alert(e instanceof Error ? e.message : "That meme couldn't be opened.");
+      return null;
+    }
+  };
+
+  const handleViewCreation = async (record: CreationRecord) => {
+    const creation = await loadSavedCreation(record);
+    if (!creation) return;
+    // Creations saved before refinement existed only have their current assets.
+    const creationVersions = creation.versions?.length ? creation.versions : [createVersion(creation.assets)];
+    const activeVersion = creationVersions.find(v => v.assets.imageData.data === creation.assets.imageData.data)
+        ?? creationVersions[creationVersions.length - 1];
     setAnimationAssets(creation.assets);
+    setVersions(creationVersions);
+    setActiveVersionId(activeVersion.id);
+    setReferenceImage(creation.referenceImage ?? null);
+    setCaptions(creation.captions ?? []);
+    setOverlays(creation.overlays ?? []);
+    setWatermark(creation.watermark ?? null);
+    setCreationSource(creation.source ?? 'generated');
+    // So Regenerate re-runs the creation with the settings it was made with. Imports have none.
+    if (creation.source !== 'imported') {
+        setStyleId(getArtStyle(creation.styleId).id);
+        setGridLayout(creation.assets.grid ?? DEFAULT_GRID);
+    }
     setStoryPrompt(creation.prompt);
     setCurrentCreationId(creation.id);
     setPreviousAppState(AppState.Gallery);
     setAppState(AppState.Animating);
   };
 
+  const handleRerunCreation = async (record: CreationRecord) => {
+    const creation = await loadSavedCreation(record);
+    if (!creation) return;
+    setStoryPrompt(creation.prompt);
+    setStyleId(getArtStyle(creation.styleId).id);
+    setGridLayout(creation.assets.grid ?? DEFAULT_GRID);
+    if (creation.referenceImage) {
+        setOriginalImage(`data:${creation.referenceImage.mimeType};base64,${creation.referenceImage.data}`);
+        setSourcePreset(creation.sourcePreset ?? null);
+    } else {
+        // Don't leave the last photo behind for a creation that didn't have one.
+        setOriginalImage(null);
+        setSourcePreset(null);
+    }
+    setGenerationError(null);
+    setError(null);
+    setAppState(AppState.Capturing);
+  };
+
   const renderContent = () => {
     switch (appState) {
       case AppState.Capturing:
@@ -355,26 +724,15 @@ IMAGE OUTPUT REQUIREMENTS:
             <p className="text-gray-600 mb-4 text-xl">The SBF meme animator.</p>
 
             <div className="w-full bg-white/60 backdrop-blur-sm rounded-2xl shadow-lg p-4 sm:p-6 space-y-4 border border-gray-200">
-                <div className="w-full overflow-x-auto no-scrollbar" aria-label="Meme style suggestions">
-                    <div className="w-max mx-auto flex items-center gap-x-2 sm:gap-x-3">
-                    {promptSuggestions.map(({ emoji, prompt }) => {
-                        const isActive = storyPrompt === prompt;
-                        return (
-                        <button
-                            key={emoji}
-                            onClick={() => handleSuggestionClick(prompt)}
-                            className={`text-3xl p-2 rounded-full transition-all duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-offset-white focus-visible:ring-gray-400 ${isActive ? 'bg-gray-300 scale-110' : 'hover:bg-gray-100'}`}
-                            title={prompt}
-                            aria-label={`${isActive ? 'Deselect' : 'Select'} meme prompt: ${prompt}`}
-                        >
-                            {emoji}
-                        </button>
-                        );
-                    })}
-                    </div>
-                </div>
+                <PromptTemplateBar
+                    customTemplates={customTemplates}
+                    onCustomTemplatesChange={handleCustomTemplatesChange}
+                    currentPrompt={storyPrompt}
+                    onUsePrompt={setStoryPrompt}
+                />
 
                 <textarea
+                    ref={promptInputRef}
                     id="storyPrompt"
                     rows={2}
                     className="w-full bg-stone-50 text-gray-800 border-2 border-gray-200 rounded-lg px-4 py-3 focus:ring-gray-400 focus:border-gray-400 transition text-2xl resize-none placeholder:text-gray-400"
@@ -384,6 +742,71 @@ IMAGE OUTPUT REQUIREMENTS:
                     aria-label="Meme prompt"
                 />
 
+                <div className="w-full" role="radiogroup" aria-label="Art style">
+                    <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1">
+                        {ART_STYLES.map(style => {
+                            const isActive = style.id === styleId;
+                            return (
+                                <button
+                                    key={style.id}
+                                    onClick={() => setStyleId(style.id)}
+                                    role="radio"
+                                    aria-checked={isActive}
+                                    className={`flex-shrink-0 w-20 rounded-xl border-2 bg-white/80 p-1 transition-all ${isActive ? 'border-gray-800 scale-105' : 'border-gray-300 hover:border-gray-500'}`}
+                                >
+                                    <img src={style.thumbnail} alt="" className="w-full aspect-square rounded-lg object-cover" />
+                                    <span className="block text-sm leading-tight text-gray-700 mt-1">{style.label}</span>
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                <div className="flex items-center justify-center gap-2" role="radiogroup" aria-label="Frame grid">
+                    <span className="text-lg text-gray-600 mr-1">Frames:</span>
+                    {GRID_PRESETS.map(preset => {
+                        const isActive = preset.grid.columns === gridLayout.columns && preset.grid.rows === gridLayout.rows;
+                        return (
+                            <button
+                                key={preset.id}
+                                onClick={() => setGridLayout(preset.grid)}
+                                role="radio"
+                                aria-checked={isActive}
+                                title={`${frameCountOf(preset.grid)} frames`}
+                                className={`px-3 py-1 rounded-full text-lg border transition-colors ${isActive ? 'bg-gray-800 text-white border-gray-800' : 'bg-white/80 text-gray-700 border-gray-300 hover:bg-white'}`}
+                            >
+                                {preset.label}
+                            </button>
+                        );
+                    })}
+                </div>
+
+                <div className="flex items-center justify-center gap-2" role="radiogroup" aria-label="Number of variants">
+                    <span className="text-lg text-gray-600 mr-1">Variants:</span>
+                    {VARIANT_COUNTS.map(count => (
+                        <button
+                            key={count}
+                            onClick={() => setVariantCount(count)}
+                            role="radio"
+                            aria-checked={variantCount === count}
+                            title={count === 1 ? 'One sprite sheet' : `Generate ${count} and pick the best`}
+                            className={`w-10 py-1 rounded-full text-lg border transition-colors ${variantCount === count ? 'bg-gray-800 text-white border-gray-800' : 'bg-white/80 text-gray-700 border-gray-300 hover:bg-white'}`}
+                        >
+                            {count}
+                        </button>
+                    ))}
+                </div>
+
+                {generationError && (
+                    <GenerationErrorPanel
+                        error={generationError}
+                        onRetry={() => handleCreateAnimation()}
+                        onChangeApiKey={handleChangeApiKey}
+                        onEditPrompt={handleEditPrompt}
+                        onDismiss={() => setGenerationError(null)}
+                    />
+                )}
+
                 {error && (
                 <div className="w-full bg-red-100 border-2 border-red-300 text-red-800 px-4 py-3 rounded-lg relative flex items-center justify-between animate-shake" role="alert">
                     <div className="pr-4">
@@ -434,32 +857,63 @@ IMAGE OUTPUT REQUIREMENTS:
                         Create Meme!
                     </button>
                 </div>
+
+                <ImportAnimationPanel onImported={handleImportAnimation} />
                 
                 <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept="image/*" />
             </div>
             </div>
         );
       case AppState.Processing:
-        return <LoadingOverlay />;
+        return <LoadingOverlay progress={progress} startedAt={generationStartedAt} onCancel={handleCancelGeneration} />;
       case AppState.Animating:
         return animationAssets ? (
+          <div className="w-full flex flex-col items-center">
+            {importNotes.length > 0 && (
+                <ul className="w-full max-w-lg text-sm text-amber-700 list-disc pl-6 mb-2" role="status">
+                    {importNotes.map(note => <li key={note}>{note}</li>)}
+                </ul>
+            )}
             <AnimationPlayer 
                 assets={animationAssets} 
                 prompt={storyPrompt}
-                isSaved={!!currentCreationId && creations.some(c => c.id === currentCreationId)}
-                onRegenerate={() => handleCreateAnimation(true)} 
+                isSaved={!!currentCreationId && (pendingSavesRef.current.has(currentCreationId) || creations.some(c => c.id === currentCreationId))}
+                onRegenerate={creationSource === 'imported' ? undefined : () => handleCreateAnimation(true)} 
                 onBack={handleBackFromPlayer} 
                 onSave={handleSaveCreation}
+                onAssetsChange={handleAssetsChange}
+                onRedrawFrame={handleRedrawFrame}
+                versions={versions}
+                activeVersionId={activeVersionId}
+                onSelectVersion={handleSelectVersion}
+                onRefine={handleRefine}
+                captions={captions}
+                onCaptionsChange={handleCaptionsChange}
+                overlays={overlays}
+                onOverlaysChange={handleOverlaysChange}
+                watermark={watermark}
+                onWatermarkChange={handleWatermarkChange}
                 isMuted={isMuted}
                 onToggleMute={handleToggleMute}
             />
+          </div>
         ) : null;
+      case AppState.ChoosingVariant:
+        return <VariantPicker
+                    candidates={variantCandidates}
+                    prompt={storyPrompt}
+                    failedCount={failedVariantCount}
+                    onKeep={handleKeepVariants}
+                    onDiscard={() => handleKeepVariants([])}
+                />;
       case AppState.Gallery:
         return <CreationsGallery 
                     creations={creations} 
                     onClose={() => setAppState(AppState.Capturing)}
                     onView={handleViewCreation}
-                    onDelete={handleDeleteCreation}
+                    onDelete={handleDeleteCreations}
+                    onUpdate={updateSavedCreation}
+                    onRerun={handleRerunCreation}
                 />;
       case AppState.Error:
         return (
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AnimationAssets } from '../services/geminiService';
+import { DEFAULT_GRID } from '../services/frameLayout';
+import { detectFrameLayout } from '../services/gridDetection';
+import { buildPlaybackSequence, resolveFrameOrder } from '../services/frameSequence';
+import { frameIndexAt, resolveFrameDurations } from '../services/timing';
+import { loadInlineImage } from '../services/imageAnalysis';
+
+interface AnimatedThumbnailProps {
+  assets: AnimationAssets;
+  /** Canvas resolution in pixels; the element itself is sized with `className`. */
+  size?: number;
+  className?: string;
+  label?: string;
+}
+
+/**
+ * Lightweight looping preview of a set of assets. Frames are drawn straight
+ * from the sprite sheet, so nothing is sliced or stabilized.
+ */
+const AnimatedThumbnail: React.FC<AnimatedThumbnailProps> = ({ assets, size = 256, className = '', label }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [sheet, setSheet] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    loadInlineImage(assets.imageData)
+      .then(img => {
+        if (!isCancelled) setSheet(img);
+      })
+      .catch(error => console.error("Could not load preview sprite sheet:", error));
+    return () => {
+      isCancelled = true;
+    };
+  }, [assets.imageData]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!sheet || !canvas || !ctx) return;
+
+    const frames = assets.frames.length > 0 ? assets.frames : detectFrameLayout(sheet, assets.grid ?? DEFAULT_GRID).frames;
+    const durations = resolveFrameDurations(assets.frameDurations, frames.length, assets.frameDuration || 120);
+    const sequence = buildPlaybackSequence(resolveFrameOrder(assets.frameOrder, frames.length), assets.loopMode);
+    const sequenceDurations = sequence.map(index => durations[index]);
+    const totalDuration = sequenceDurations.reduce((sum, d) => sum + d, 0);
+    let startTime = 0;
+    let frameId = 0;
+
+    const draw = (timestamp: number) => {
+      if (!startTime) startTime = timestamp;
+      const elapsed = timestamp - startTime;
+      const isFinished = assets.loopMode === 'once' && elapsed >= totalDuration;
+      const step = isFinished ? sequence.length - 1 : frameIndexAt(sequenceDurations, elapsed % totalDuration);
+      const frame = frames[sequence[step]];
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(sheet, frame.x, frame.y, frame.width, frame.height, 0, 0, canvas.width, canvas.height);
+      if (!isFinished) frameId = requestAnimationFrame(draw);
+    };
+    frameId = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frameId);
+  }, [sheet, assets.frames, assets.grid, assets.frameDurations, assets.frameDuration, assets.frameOrder, assets.loopMode]);
+
+  return <canvas ref={canvasRef} width={size} height={size} className={`bg-gray-200 ${className}`} role="img" aria-label={label ?? 'Animation preview'} />;
+};
+
+export default AnimatedThumbnail;
@@ -4,36 +4,165 @@
 */
 
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { AnimationAssets } from '../services/geminiService';
-import { Frame } from '../types';
+import { Caption, CreationVersion, ExportFormat, ExportSettings, Frame, LoopMode, Overlay, OverlayTransform, WatermarkCorner } from '../types';
 import Spinner from './BananaLoader';
-import { InfoIcon, XCircleIcon, SettingsIcon, ArrowLeftIcon, SaveIcon, ShareIcon, TwitterIcon, RefreshCwIcon, DownloadIcon, Volume2Icon, VolumeXIcon } from './icons';
-
-// Add declaration for the gifshot library loaded from CDN
-declare var gifshot: any;
+import FrameBoundaryEditor from './FrameBoundaryEditor';
+import FrameSequenceEditor from './FrameSequenceEditor';
+import CaptionEditor from './CaptionEditor';
+import OverlayEditor from './OverlayEditor';
+import ExportOptions from './ExportOptions';
+import SpriteSheetExportPanel from './SpriteSheetExportPanel';
+import RefinementPanel from './RefinementPanel';
+import { DEFAULT_GRID } from '../services/frameLayout';
+import { detectFrameLayout } from '../services/gridDetection';
+import { applyFrameTransforms, estimateFrameTransforms } from '../services/stabilization';
+import { GenerationCancelledError } from '../services/generationErrors';
+import { supportedVideoFormats } from '../services/videoEncoder';
+import { ExportProgress, createExportFile, exportBaseName, exportFileName } from '../services/exportPipeline';
+import { SpriteSheetExportOptions, createSpriteSheetZip } from '../services/spriteAtlas';
+import { ExportPresetId, getExportPreset } from '../services/exportPresets';
+import { GenerationProgress, ProgressCallback } from '../services/generationProgress';
+import { markMetadataEdited } from '../services/animationMetadata';
+import { buildPlaybackSequence, identityFrameOrder, resolveFrameOrder } from '../services/frameSequence';
+import { drawCaptions, loadCaptionFont } from '../services/captionRenderer';
+import { clampOverlayScale, drawOverlaySelection, drawOverlays, drawWatermark, hitTestOverlays, loadOverlayImages, overlayTransformAt, setOverlayTransformAt } from '../services/overlayRenderer';
+import { TIMING_PRESETS, TimingPresetId, applyTimingPreset, averageDuration, clampDuration, frameIndexAt, resolveFrameDurations } from '../services/timing';
+import { InfoIcon, XCircleIcon, SettingsIcon, ArrowLeftIcon, RotateCcwIcon, SaveIcon, ShareIcon, TwitterIcon, RefreshCwIcon, DownloadIcon, Volume2Icon, VolumeXIcon } from './icons';
 
 // --- DEBUG FLAG ---
 // Set to `true` to disable the share button for testing layout.
 const DISABLE_SHARE_BUTTON = false;
 
+// How often a frame-boundary drag re-slices the animation.
+const PREVIEW_SLICE_INTERVAL_MS = 100;
+// Timing and caption edits are saved once the user pauses, so dragging a slider or typing doesn't write on every tick.
+const EDIT_COMMIT_DELAY_MS = 300;
+const DEFAULT_FRAME_DURATION = 120; // ms per frame
+// Sprite sheet versions kept for undoing frame redraws. Each one is a full image, so keep it short.
+const MAX_SHEET_HISTORY = 5;
+
+/** An edit waiting out `EDIT_COMMIT_DELAY_MS`, kept so it can still be saved when the user leaves the player. */
+interface PendingCommit {
+  timer: ReturnType<typeof setTimeout>;
+  commit: () => void;
+}
+
+const scheduleCommit = (ref: React.MutableRefObject<PendingCommit | null>, commit: () => void) => {
+  if (ref.current) clearTimeout(ref.current.timer);
+  ref.current = {
+    commit,
+    timer: setTimeout(() => {
+      ref.current = null;
+      commit();
+    }, EDIT_COMMIT_DELAY_MS),
+  };
+};
+
+const cancelCommit = (ref: React.MutableRefObject<PendingCommit | null>) => {
+  if (ref.current) clearTimeout(ref.current.timer);
+  ref.current = null;
+};
+
+const flushCommit = (ref: React.MutableRefObject<PendingCommit | null>) => {
+  const pending = ref.current;
+  if (!pending) return;
+  ref.current = null;
+  clearTimeout(pending.timer);
+  pending.commit();
+};
+
 interface AnimationPlayerProps {
   assets: AnimationAssets;
   prompt: string;
   isSaved: boolean;
-  onRegenerate: () => void;
+  /** Absent for imported animations, which have no photo and prompt to run again. */
+  onRegenerate?: () => void;
   onBack: () => void;
   onSave: (assets: AnimationAssets, prompt: string) => void;
+  /** Called when the player edits the assets, e.g. a fixed frame layout. */
+  onAssetsChange: (assets: AnimationAssets) => void;
+  /** Asks the model to redraw one cell and returns the assets with the new sprite sheet. */
+  onRedrawFrame: (assets: AnimationAssets, frameIndex: number, signal: AbortSignal) => Promise<AnimationAssets>;
+  versions: CreationVersion[];
+  activeVersionId: string | null;
+  onSelectVersion: (id: string) => void;
+  onRefine: (instruction: string, signal: AbortSignal, onProgress: ProgressCallback) => Promise<void>;
+  /** Meme text drawn over the animation, in playback and in exports. */
+  captions: Caption[];
+  onCaptionsChange: (captions: Caption[]) => void;
+  /** Stickers drawn under the captions, in playback and in exports. */
+  overlays: Overlay[];
+  onOverlaysChange: (overlays: Overlay[]) => void;
+  watermark: WatermarkCorner | null;
+  onWatermarkChange: (corner: WatermarkCorner | null) => void;
   isMuted: boolean;
   onToggleMute: () => void;
 }
 
 interface AnimationConfig {
-  speed: number;
+  stabilize: boolean;
+  stabilizationStrength: number; // percent of the estimated drift to remove
+  stabilizeScale: boolean;
 }
 
 const DEFAULT_CONFIG: AnimationConfig = {
-  speed: 120, // ms per frame
+  stabilize: false,
+  stabilizationStrength: 100,
+  stabilizeScale: false,
+};
+
+const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'gif',
+  size: 512,
+  loopCount: 3,
+  bitrate: 2_500_000,
+  gifColors: 256,
+  gifPalette: 'global',
+  dither: true,
+  transparent: false,
+  targetSizeKb: null,
+  maxFrameRate: null,
+  maxDurationMs: null,
+};
+
+interface FrameLayers {
+  overlays: Overlay[];
+  overlayImages: Map<string, HTMLImageElement>;
+  captions: Caption[];
+  watermark: WatermarkCorner | null;
+}
+
+// An in-progress drag on the player canvas: moving a sticker, or scaling and rotating it by its handle.
+interface OverlayDrag {
+  id: string;
+  part: 'body' | 'handle';
+  position: number;
+  startX: number;
+  startY: number;
+  start: OverlayTransform;
+}
+
+const downloadFile = (file: File) => {
+  const url = URL.createObjectURL(file);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = file.name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  // Give the download a moment to start before releasing the file.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** Draws a frame with everything layered over it. Playback and exports share this so they match. */
+const drawComposedFrame = (ctx: CanvasRenderingContext2D, frame: HTMLImageElement, position: number, layers: FrameLayers, width: number, height: number) => {
+  ctx.clearRect(0, 0, width, height);
+  ctx.drawImage(frame, 0, 0, width, height);
+  drawOverlays(ctx, layers.overlays, layers.overlayImages, position, width, height);
+  drawCaptions(ctx, layers.captions, position, width, height);
+  if (layers.watermark) drawWatermark(ctx, layers.watermark, width, height);
 };
 
 const Confetti: React.FC = () => {
@@ -62,24 +191,6 @@ const Confetti: React.FC = () => {
 };
 
 
-const dataURLtoBlob = (dataurl: string): Blob => {
-    const arr = dataurl.split(',');
-    if (arr.length < 2) {
-        throw new Error('Invalid data URL');
-    }
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch) {
-        throw new Error('Could not parse MIME type from data URL');
-    }
-    const mime = mimeMatch[1];
-    const bstr = atob(arr[1]);
-    let n = bstr.length;
-    const u8arr = new Uint8Array(n);
-    while (n--) {
-        u8arr[n] = bstr.charCodeAt(n);
-    }
-    return new Blob([u8arr], { type: mime });
-}
 
 
 const ControlSlider: React.FC<{
@@ -119,30 +230,84 @@ const ControlSlider: React.FC<{
     </div>
 );
 
-const AnimationPlayer: React.FC<AnimationPlayerProps> = ({ assets, prompt, isSaved, onRegenerate, onBack, onSave, isMuted, onToggleMute }) => {
+const AnimationPlayer: React.FC<AnimationPlayerProps> = ({ assets, prompt, isSaved, onRegenerate, onBack, onSave, onAssetsChange, onRedrawFrame, versions, activeVersionId, onSelectVersion, onRefine, captions, onCaptionsChange, overlays, onOverlaysChange, watermark, onWatermarkChange, isMuted, onToggleMute }) => {
   const [frames, setFrames] = useState<HTMLImageElement[]>([]);
+  const [stabilizedFrames, setStabilizedFrames] = useState<HTMLImageElement[] | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
+  // Building the file outlasts the click's user activation, which share() needs, so sharing takes a second tap.
+  const [shareFile, setShareFile] = useState<File | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [exportPresetId, setExportPresetId] = useState<ExportPresetId | null>(null);
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+  // What the last export changed to meet its limits, or which limit it missed.
+  const [exportNotes, setExportNotes] = useState<{ notes: string[]; withinBudget: boolean } | null>(null);
+  const exportFormats = useMemo<ExportFormat[]>(() => ['gif', ...supportedVideoFormats()], []);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [showControls, setShowControls] = useState(false);
-  const [config, setConfig] = useState<AnimationConfig>({
-    ...DEFAULT_CONFIG,
-    speed: assets.frameDuration || DEFAULT_CONFIG.speed,
-  });
+  const [config, setConfig] = useState<AnimationConfig>(DEFAULT_CONFIG);
+  const [frameDurations, setFrameDurations] = useState<number[]>([]);
+  const [timingPreset, setTimingPreset] = useState<TimingPresetId>('uniform');
+  const [pauseFrame, setPauseFrame] = useState(0);
+  const timingCommitRef = useRef<PendingCommit | null>(null);
+  const assetsRef = useRef(assets);
+  assetsRef.current = assets;
   const [viewMode, setViewMode] = useState<'animation' | 'spritesheet'>('animation');
   const animationFrameId = useRef<number | null>(null);
   const animationStartTimeRef = useRef<number>(0);
+  // Draws one more frame once a 'Play once' run has stopped on its last one.
+  const redrawHeldFrameRef = useRef<(() => void) | null>(null);
+  const [replayCount, setReplayCount] = useState(0);
   
   const [spriteSheetImage, setSpriteSheetImage] = useState<HTMLImageElement | null>(null);
+  const spriteSheetImageRef = useRef<HTMLImageElement | null>(null);
+  spriteSheetImageRef.current = spriteSheetImage;
   const containerRef = useRef<HTMLDivElement>(null);
-  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  const sliceRequestRef = useRef(0);
+  const lastPreviewSliceRef = useRef(0);
   const [displayFrames, setDisplayFrames] = useState<Frame[]>([]);
   const [pendingAction, setPendingAction] = useState<'export' | 'share' | null>(null);
+  const [selectedFrame, setSelectedFrame] = useState<number | null>(null);
+  const [redrawingFrame, setRedrawingFrame] = useState<number | null>(null);
+  const [redrawError, setRedrawError] = useState<string | null>(null);
+  const [sheetHistory, setSheetHistory] = useState<Pick<AnimationAssets, 'imageData' | 'frames'>[]>([]);
+  const redrawAbortRef = useRef<AbortController | null>(null);
+  // Refinements run here rather than in their panel, which unmounts whenever the sprite sheet view is open.
+  const [isRefining, setIsRefining] = useState(false);
+  const [refineProgress, setRefineProgress] = useState<GenerationProgress | null>(null);
+  const [refineError, setRefineError] = useState<string | null>(null);
+  const refineAbortRef = useRef<AbortController | null>(null);
+  // Captions are edited locally and saved after a pause, like timing edits.
+  const [captionDraft, setCaptionDraft] = useState<Caption[]>(captions);
+  const captionDraftRef = useRef(captionDraft);
+  captionDraftRef.current = captionDraft;
+  const captionCommitRef = useRef<PendingCommit | null>(null);
+  const [overlayDraft, setOverlayDraft] = useState<Overlay[]>(overlays);
+  const overlayDraftRef = useRef(overlayDraft);
+  overlayDraftRef.current = overlayDraft;
+  const overlayCommitRef = useRef<PendingCommit | null>(null);
+  const [overlayImages, setOverlayImages] = useState<Map<string, HTMLImageElement>>(() => new Map());
+  const overlayImagesRef = useRef(overlayImages);
+  overlayImagesRef.current = overlayImages;
+  // While a sticker is selected, playback holds on `editPosition` so it can be placed on that frame.
+  const [selectedOverlayId, setSelectedOverlayId] = useState<string | null>(null);
+  const selectedOverlayIdRef = useRef(selectedOverlayId);
+  selectedOverlayIdRef.current = selectedOverlayId;
+  const [editPosition, setEditPosition] = useState(0);
+  const editPositionRef = useRef(editPosition);
+  editPositionRef.current = editPosition;
+  const watermarkRef = useRef(watermark);
+  watermarkRef.current = watermark;
+  // The frame-order position on screen right now, for hit-testing stickers where they're drawn.
+  const currentPositionRef = useRef(0);
+  const overlayDragRef = useRef<OverlayDrag | null>(null);
 
   const isShareAvailable = typeof navigator !== 'undefined' && navigator.share && !DISABLE_SHARE_BUTTON;
 
   const processSpriteSheet = useCallback((img: HTMLImageElement, frameLayout: Frame[]) => {
+    // Slicing is async, so only the most recent request may update the frames.
+    const requestId = ++sliceRequestRef.current;
     if (!frameLayout || frameLayout.length === 0) {
         console.error("processSpriteSheet called with no frame layout.");
         setFrames([]);
@@ -175,6 +340,7 @@ const AnimationPlayer: React.FC<AnimationPlayerProps> = ({ assets, prompt, isSav
     });
 
     Promise.all(framePromises).then(loadedFrames => {
+      if (requestId !== sliceRequestRef.current) return;
       setFrames(loadedFrames);
       setIsLoading(false);
     }).catch(error => {
@@ -183,77 +349,314 @@ const AnimationPlayer: React.FC<AnimationPlayerProps> = ({ assets, prompt, isSav
     });
   }, []);
   
-  const performExport = useCallback(() => {
-    if (frames.length === 0 || !canvasRef.current) return;
-    setIsExporting(true);
+  // Registration only depends on the frames, so re-running it is skipped while the strength slider moves.
+  const frameTransforms = useMemo(() => {
+    if (!config.stabilize || frames.length < 2) return null;
+    return estimateFrameTransforms(frames, { estimateScale: config.stabilizeScale });
+  }, [frames, config.stabilize, config.stabilizeScale]);
 
-    const imageUrls = frames.map(frame => frame.src);
-    const intervalInSeconds = config.speed / 1000;
-    const gifWidth = canvasRef.current.width;
-    const gifHeight = canvasRef.current.height;
-
-    gifshot.createGIF({
-        images: imageUrls,
-        gifWidth: gifWidth,
-        gifHeight: gifHeight,
-        interval: intervalInSeconds,
-        numWorkers: 2,
-    }, (obj: { error: boolean; image: string; errorMsg: string }) => {
-        setIsExporting(false);
-        if (!obj.error) {
-            const a = document.createElement('a');
-            a.href = obj.image;
-            a.download = 'sbf-meme.gif';
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-        } else {
-            console.error('GIF export failed:', obj.errorMsg);
-        }
+  useEffect(() => {
+    if (!frameTransforms) {
+      setStabilizedFrames(null);
+      return;
+    }
+    let isCancelled = false;
+    applyFrameTransforms(frames, frameTransforms, config.stabilizationStrength / 100)
+      .then(result => {
+        if (!isCancelled) setStabilizedFrames(result);
+      })
+      .catch(error => console.error("Error stabilizing frames:", error));
+    return () => {
+      isCancelled = true;
+    };
+  }, [frames, frameTransforms, config.stabilizationStrength]);
+
+  const playbackFrames = stabilizedFrames ?? frames;
+
+  useEffect(() => {
+    setFrameDurations(resolveFrameDurations(assets.frameDurations, displayFrames.length, assets.frameDuration || DEFAULT_FRAME_DURATION));
+  }, [assets.frameDurations, assets.frameDuration, displayFrames.length]);
+
+  // Pending edits are saved by the Back and Regenerate handlers, before the parent resets the
+  // creation they belong to. Committing them here would write into whatever replaced it.
+  useEffect(() => () => {
+    cancelCommit(timingCommitRef);
+    cancelCommit(captionCommitRef);
+    cancelCommit(overlayCommitRef);
+    redrawAbortRef.current?.abort();
+    refineAbortRef.current?.abort();
+  }, []);
+
+  const flushPendingEdits = () => {
+    flushCommit(timingCommitRef);
+    flushCommit(captionCommitRef);
+    flushCommit(overlayCommitRef);
+  };
+
+  const handleBack = () => {
+    flushPendingEdits();
+    onBack();
+  };
+
+  const handleRegenerate = () => {
+    flushPendingEdits();
+    onRegenerate?.();
+  };
+
+  useEffect(() => {
+    setCaptionDraft(captions);
+  }, [captions]);
+
+  useEffect(() => {
+    setOverlayDraft(overlays);
+  }, [overlays]);
+
+  // A sticker's image never changes, so images only need reloading when stickers are added or removed.
+  const overlayIdsKey = overlayDraft.map(overlay => overlay.id).join(',');
+  useEffect(() => {
+    let isCancelled = false;
+    loadOverlayImages(overlayDraftRef.current).then(images => {
+      if (!isCancelled) setOverlayImages(images);
     });
-  }, [frames, config.speed]);
+    return () => {
+      isCancelled = true;
+    };
+  }, [overlayIdsKey]);
 
-  const performShare = useCallback(async () => {
-    if (!isShareAvailable || frames.length === 0 || !canvasRef.current) return;
-    setIsSharing(true);
+  // Durations can briefly lag behind a re-slice, so fall back to an even timing when the counts differ.
+  const playbackDurations = useMemo(() =>
+    frameDurations.length === playbackFrames.length
+      ? frameDurations
+      : resolveFrameDurations(undefined, playbackFrames.length, averageDuration(frameDurations) || DEFAULT_FRAME_DURATION),
+  [frameDurations, playbackFrames.length]);
 
-    const imageUrls = frames.map(frame => frame.src);
-    const intervalInSeconds = config.speed / 1000;
+  const frameOrder = useMemo(() => resolveFrameOrder(assets.frameOrder, playbackFrames.length), [assets.frameOrder, playbackFrames.length]);
+  const loopMode: LoopMode = assets.loopMode ?? 'loop';
+  // One pass of playback as indices into `playbackFrames`, with the timing of each step.
+  const playbackSequence = useMemo(() => buildPlaybackSequence(frameOrder, loopMode), [frameOrder, loopMode]);
+  const sequenceDurations = useMemo(() => playbackSequence.map(index => playbackDurations[index]), [playbackSequence, playbackDurations]);
+  // The same pass as positions in the frame order, which is what caption frame ranges refer to.
+  const sequencePositions = useMemo(() => buildPlaybackSequence(identityFrameOrder(frameOrder.length), loopMode), [frameOrder.length, loopMode]);
 
-    gifshot.createGIF({
-        images: imageUrls,
-        gifWidth: canvasRef.current.width,
-        gifHeight: canvasRef.current.height,
-        interval: intervalInSeconds,
-        numWorkers: 2,
-    }, async (obj: { error: boolean; image: string; errorMsg: string }) => {
-        setIsSharing(false);
-        if (!obj.error) {
-            try {
-                const blob = dataURLtoBlob(obj.image);
-                const file = new File([blob], "sbf-meme.gif", { type: "image/gif" });
-                if (navigator.canShare && navigator.canShare({ files: [file] })) {
-                    await navigator.share({
-                        files: [file],
-                        title: 'My SBF Meme',
-                        text: 'Check out this SBF meme I created!',
-                    });
-                } else {
-                    console.error("Sharing not supported for these files.");
-                    alert("Your browser doesn't support sharing this file.");
-                }
-            } catch (error) {
-                console.error('Error sharing GIF:', error);
-                if (error instanceof Error && error.name !== 'AbortError') {
-                  alert(`Sharing failed: ${error.message}`);
-                }
-            }
+  const handleSequenceChange = (order: number[], mode: LoopMode) => {
+    const metadataSources = mode !== loopMode ? markMetadataEdited(assets.metadataSources, ['loopType']) : assets.metadataSources;
+    onAssetsChange({ ...assets, frameOrder: order, loopMode: mode, metadataSources });
+  };
+
+  const updateFrameDurations = useCallback((durations: number[]) => {
+    setFrameDurations(durations);
+    scheduleCommit(timingCommitRef, () => onAssetsChange({
+      ...assetsRef.current,
+      frameDurations: durations,
+      metadataSources: markMetadataEdited(assetsRef.current.metadataSources, ['frameDuration', 'frameDurations']),
+    }));
+  }, [onAssetsChange]);
+
+  const handleCaptionsChange = (updated: Caption[]) => {
+    setCaptionDraft(updated);
+    scheduleCommit(captionCommitRef, () => onCaptionsChange(updated));
+  };
+
+  const handleOverlaysChange = (updated: Overlay[]) => {
+    setOverlayDraft(updated);
+    // Pointer moves can arrive faster than renders, so the next one must build on this one.
+    overlayDraftRef.current = updated;
+    scheduleCommit(overlayCommitRef, () => onOverlaysChange(updated));
+  };
+
+  const handleSelectOverlay = (id: string | null) => {
+    // Hold on whichever frame was showing when editing starts.
+    if (id && !selectedOverlayIdRef.current) setEditPosition(currentPositionRef.current);
+    setSelectedOverlayId(id);
+  };
+
+  const canvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * canvas.width / rect.width,
+      y: (e.clientY - rect.top) * canvas.height / rect.height,
+    };
+  };
+
+  const handleCanvasPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const { x, y } = canvasPoint(e);
+    const position = currentPositionRef.current;
+    const hit = hitTestOverlays(overlayDraftRef.current, overlayImagesRef.current, selectedOverlayIdRef.current, position, x, y, canvas.width, canvas.height);
+    if (!hit) {
+      if (selectedOverlayIdRef.current) handleSelectOverlay(null);
+      else if (loopMode === 'once') setReplayCount(c => c + 1);
+      return;
+    }
+    const overlay = overlayDraftRef.current.find(o => o.id === hit.id);
+    if (!overlay) return;
+    handleSelectOverlay(hit.id);
+    canvas.setPointerCapture(e.pointerId);
+    overlayDragRef.current = { id: hit.id, part: hit.part, position, startX: x, startY: y, start: overlayTransformAt(overlay, position) };
+  };
+
+  const handleCanvasPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = overlayDragRef.current;
+    if (!drag) return;
+    const canvas = e.currentTarget;
+    const { x, y } = canvasPoint(e);
+    const { start } = drag;
+    let transform: OverlayTransform;
+    if (drag.part === 'body') {
+      transform = {
+        ...start,
+        x: Math.min(1, Math.max(0, start.x + (x - drag.startX) / canvas.width)),
+        y: Math.min(1, Math.max(0, start.y + (y - drag.startY) / canvas.height)),
+      };
+    } else {
+      // The handle scales by its distance from the centre and rotates by its angle around it.
+      const centerX = start.x * canvas.width;
+      const centerY = start.y * canvas.height;
+      const startDistance = Math.hypot(drag.startX - centerX, drag.startY - centerY) || 1;
+      const angleDelta = Math.atan2(y - centerY, x - centerX) - Math.atan2(drag.startY - centerY, drag.startX - centerX);
+      const rotation = start.rotation + angleDelta * 180 / Math.PI;
+      transform = {
+        ...start,
+        scale: clampOverlayScale(start.scale * Math.hypot(x - centerX, y - centerY) / startDistance),
+        rotation: ((rotation + 540) % 360) - 180,
+      };
+    }
+    handleOverlaysChange(overlayDraftRef.current.map(o => o.id === drag.id ? setOverlayTransformAt(o, drag.position, transform) : o));
+  };
+
+  const handleCanvasPointerUp = () => {
+    overlayDragRef.current = null;
+  };
+
+  const handleSpeedChange = (speed: number) => {
+    const average = averageDuration(frameDurations);
+    if (!average) return;
+    updateFrameDurations(frameDurations.map(d => clampDuration(d * speed / average)));
+  };
+
+  const handleTimingPresetChange = (preset: TimingPresetId, pause: number = pauseFrame) => {
+    setTimingPreset(preset);
+    setPauseFrame(pause);
+    updateFrameDurations(applyTimingPreset(preset, frameDurations.length, averageDuration(frameDurations) || DEFAULT_FRAME_DURATION, pause));
+  };
+
+  const handleFrameDurationChange = (index: number, duration: number) => {
+    updateFrameDurations(frameDurations.map((d, i) => i === index ? clampDuration(duration) : d));
+  };
+
+  const handleResetConfig = () => {
+    setConfig(DEFAULT_CONFIG);
+    setTimingPreset('uniform');
+    updateFrameDurations(resolveFrameDurations(undefined, frameDurations.length, assets.frameDuration || DEFAULT_FRAME_DURATION));
+  };
+
+  // Draws every step of one pass with its stickers and captions, so exports match the preview.
+  const renderSequenceFrames = useCallback(async (size: number): Promise<HTMLCanvasElement[]> => {
+    await loadCaptionFont();
+    const layers: FrameLayers = {
+      overlays: overlayDraftRef.current,
+      overlayImages: await loadOverlayImages(overlayDraftRef.current),
+      captions: captionDraftRef.current,
+      watermark: watermarkRef.current,
+    };
+    return playbackSequence.map((frameIndex, step) => {
+      const canvas = document.createElement('canvas');
+      canvas.width = size;
+      canvas.height = size;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Could not create a canvas to render the export frames.');
+      drawComposedFrame(ctx, playbackFrames[frameIndex], sequencePositions[step], layers, size, size);
+      return canvas;
+    });
+  }, [playbackFrames, playbackSequence, sequencePositions]);
+
+  // Export and Share both go through here, so they always produce the same file.
+  const buildExportFile = useCallback(async (): Promise<File> => {
+    setExportNotes(null);
+    const frames = await renderSequenceFrames(exportSettings.size);
+    const suffix = exportPresetId ?? undefined;
+    const result = await createExportFile(frames, sequenceDurations, exportSettings, loopMode, extension => exportFileName(prompt, extension, suffix), setExportProgress);
+    if (result.notes.length > 0) {
+      setExportNotes({ notes: result.notes, withinBudget: result.withinBudget });
+    }
+    return result.file;
+  }, [exportSettings, exportPresetId, renderSequenceFrames, sequenceDurations, loopMode, prompt]);
+
+  // Game sprites skip captions and stickers: they're the plain frames, re-packed.
+  const handleSpriteSheetExport = async (options: SpriteSheetExportOptions) => {
+    const zip = await createSpriteSheetZip(
+      playbackFrames,
+      { frameOrder, durations: playbackDurations, loopMode },
+      options,
+      exportBaseName(prompt)
+    );
+    downloadFile(new File([zip], exportFileName(prompt, 'zip', 'sprites'), { type: 'application/zip' }));
+  };
+
+  const handleExportSettingsChange = (settings: ExportSettings) => {
+    setExportSettings(settings);
+    setExportPresetId(null);
+  };
+
+  const handleExportPresetChange = (id: ExportPresetId | null) => {
+    const preset = getExportPreset(id);
+    setExportPresetId(id);
+    if (preset) setExportSettings(settings => ({ ...settings, ...preset.settings }));
+  };
+
+  const performExport = useCallback(async () => {
+    if (playbackFrames.length === 0) return;
+    setIsExporting(true);
+    try {
+        downloadFile(await buildExportFile());
+    } catch (error) {
+        console.error('Export failed:', error);
+        alert(`Export failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+        setIsExporting(false);
+        setExportProgress(null);
+    }
+  }, [playbackFrames.length, buildExportFile]);
+
+  const prepareShareFile = useCallback(async () => {
+    if (!isShareAvailable || playbackFrames.length === 0) return;
+    setIsSharing(true);
+    try {
+        const file = await buildExportFile();
+        if (navigator.canShare && navigator.canShare({ files: [file] })) {
+            setShareFile(file);
         } else {
-            console.error('GIF export for sharing failed:', obj.errorMsg);
-            alert(`Could not create GIF for sharing: ${obj.errorMsg}`);
+            console.error("Sharing not supported for these files.");
+            alert("Your browser doesn't support sharing this file.");
+        }
+    } catch (error) {
+        console.error('Error preparing the share file:', error);
+        alert(`Sharing failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+        setIsSharing(false);
+        setExportProgress(null);
+    }
+  }, [playbackFrames.length, buildExportFile, isShareAvailable]);
+
+  // Must be called straight from a click, while it still counts as user activation.
+  const sendShareFile = (file: File) => {
+    navigator.share({
+        files: [file],
+        title: 'My SBF Meme',
+        text: 'Check out this SBF meme I created!',
+    }).then(() => setShareFile(null), error => {
+        console.error('Error sharing animation:', error);
+        if (error instanceof Error && error.name !== 'AbortError') {
+          alert(`Sharing failed: ${error.message}`);
         }
     });
-  }, [frames, config.speed, isShareAvailable]);
+  };
+
+  // A prepared file no longer matches once anything it was rendered from changes.
+  useEffect(() => {
+    setShareFile(null);
+  }, [buildExportFile, captionDraft, overlayDraft, watermark]);
   
   const handleTwitterShare = () => {
     const shareText = `Check out this animation I made about "${prompt}" with #gmSBF!`;
@@ -273,11 +676,11 @@ const AnimationPlayer: React.FC<AnimationPlayerProps> = ({ assets, prompt, isSav
         if (pendingAction === 'export') {
             performExport();
         } else if (pendingAction === 'share') {
-            performShare();
+            prepareShareFile();
         }
         setPendingAction(null);
     }
-  }, [pendingAction, viewMode, performExport, performShare]);
+  }, [pendingAction, viewMode, performExport, prepareShareFile]);
 
   useEffect(() => {
     if (!assets.imageData || !assets.imageData.data) {
@@ -285,43 +688,38 @@ const AnimationPlayer: React.FC<AnimationPlayerProps> = ({ assets, prompt, isSav
         return;
     }
     
-    setIsLoading(true);
-    setFrames([]);
+    // A redrawn frame swaps the sheet in place; only the first load shows the spinner.
+    const isFirstLoad = !spriteSheetImageRef.current;
+    if (isFirstLoad) {
+        setIsLoading(true);
+        setFrames([]);
+    }
 
     const img = new Image();
     img.onload = () => {
+        console.log(`[DEBUG] Received sprite sheet with dimensions: ${img.naturalWidth}x${img.naturalHeight}`);
         setSpriteSheetImage(img);
-        
-        const { naturalWidth, naturalHeight } = img;
-        console.log(`[DEBUG] Received sprite sheet with dimensions: ${naturalWidth}x${naturalHeight}`);
-        const frameWidth = Math.floor(naturalWidth / 3);
-        const frameHeight = Math.floor(naturalHeight / 3);
-        const frameLayout: Frame[] = [];
-        const cropAmount = 10;
-
-        for (let i = 0; i < 9; i++) {
-            const initialX = (i % 3) * frameWidth;
-            const initialY = Math.floor(i / 3) * frameHeight;
-            frameLayout.push({ 
-                x: initialX + cropAmount, 
-                y: initialY + cropAmount, 
-                width: frameWidth - (cropAmount * 2), 
-                height: frameHeight - (cropAmount * 2) 
-            });
-        }
-        
-        setDisplayFrames(frameLayout);
-        processSpriteSheet(img, frameLayout);
     }
     img.onerror = () => {
         console.error("Failed to load generated image.");
         setIsLoading(false);
     }
     img.src = `data:${assets.imageData.mimeType};base64,${assets.imageData.data}`;
-  }, [assets, processSpriteSheet]);
+  }, [assets.imageData]);
 
   useEffect(() => {
-    if (frames.length === 0 || !canvasRef.current || isLoading || viewMode !== 'animation') {
+    if (!spriteSheetImage) return;
+    // Creations saved before the service sliced frames itself have an empty layout.
+    const frameLayout: Frame[] = assets.frames.length > 0
+        ? assets.frames
+        : detectFrameLayout(spriteSheetImage, assets.grid ?? DEFAULT_GRID).frames;
+
+    setDisplayFrames(frameLayout);
+    processSpriteSheet(spriteSheetImage, frameLayout);
+  }, [spriteSheetImage, assets.frames, assets.grid, processSpriteSheet]);
+
+  useEffect(() => {
+    if (playbackFrames.length === 0 || !canvasRef.current || isLoading || viewMode !== 'animation') {
       if(animationFrameId.current) {
         cancelAnimationFrame(animationFrameId.current);
         animationFrameId.current = null;
@@ -335,109 +733,133 @@ const AnimationPlayer: React.FC<AnimationPlayerProps> = ({ assets, prompt, isSav
     
     canvas.width = 512;
     canvas.height = 512;
-    
+    // Restart from the first step so a changed sequence (or 'Play once') plays from the top.
+    animationStartTimeRef.current = 0;
+    const totalDuration = sequenceDurations.reduce((sum, d) => sum + d, 0);
+
     const animate = (timestamp: number) => {
+      animationFrameId.current = null;
       if(animationStartTimeRef.current === 0) animationStartTimeRef.current = timestamp;
       
-      const totalDuration = frames.length * config.speed;
-      const elapsedTime = (timestamp - animationStartTimeRef.current) % totalDuration;
-      const currentFrameIndex = Math.floor(elapsedTime / config.speed);
+      const elapsed = timestamp - animationStartTimeRef.current;
+      const isFinished = loopMode === 'once' && elapsed >= totalDuration;
+      const step = isFinished ? playbackSequence.length - 1 : frameIndexAt(sequenceDurations, elapsed % totalDuration);
       
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.drawImage(frames[currentFrameIndex], 0, 0, canvas.width, canvas.height);
+      const selectedOverlay = overlayDraftRef.current.find(overlay => overlay.id === selectedOverlayIdRef.current);
+      const position = selectedOverlay ? Math.min(editPositionRef.current, frameOrder.length - 1) : sequencePositions[step];
+      const frameIndex = selectedOverlay ? frameOrder[position] : playbackSequence[step];
+      currentPositionRef.current = position;
+
+      const layers: FrameLayers = {
+        overlays: overlayDraftRef.current,
+        overlayImages: overlayImagesRef.current,
+        captions: captionDraftRef.current,
+        watermark: watermarkRef.current,
+      };
+      drawComposedFrame(ctx, playbackFrames[frameIndex], position, layers, canvas.width, canvas.height);
+      if (selectedOverlay) drawOverlaySelection(ctx, selectedOverlay, overlayImagesRef.current, position, canvas.width, canvas.height);
       
-      animationFrameId.current = requestAnimationFrame(animate);
+      // Once 'Play once' finishes the held frame only changes with an edit, which redraws it.
+      if (!isFinished) animationFrameId.current = requestAnimationFrame(animate);
     };
 
+    redrawHeldFrameRef.current = () => {
+      if (animationFrameId.current === null) animationFrameId.current = requestAnimationFrame(animate);
+    };
     animationFrameId.current = requestAnimationFrame(animate);
 
     return () => {
+      redrawHeldFrameRef.current = null;
       if (animationFrameId.current) {
         cancelAnimationFrame(animationFrameId.current);
         animationFrameId.current = null;
       }
     };
-  }, [frames, config, isLoading, viewMode]);
-  
-  const getImageDisplayDimensions = useCallback(() => {
-    if (!spriteSheetImage || !containerRef.current) {
-      return { x: 0, y: 0, width: 0, height: 0, scale: 1 };
-    }
-    const container = containerRef.current;
-    const containerRect = container.getBoundingClientRect();
-    const imgRatio = spriteSheetImage.naturalWidth / spriteSheetImage.naturalHeight;
-    const containerRatio = containerRect.width / containerRect.height;
-    let finalWidth, finalHeight, offsetX, offsetY;
-  
-    if (imgRatio > containerRatio) {
-      finalWidth = containerRect.width;
-      finalHeight = finalWidth / imgRatio;
-      offsetX = 0;
-      offsetY = (containerRect.height - finalHeight) / 2;
-    } else {
-      finalHeight = containerRect.height;
-      finalWidth = finalHeight * imgRatio;
-      offsetY = 0;
-      offsetX = (containerRect.width - finalWidth) / 2;
-    }
-  
-    return {
-      width: finalWidth,
-      height: finalHeight,
-      x: offsetX,
-      y: offsetY,
-      scale: finalWidth / spriteSheetImage.naturalWidth,
-    };
-  }, [spriteSheetImage]);
+  }, [playbackFrames, frameOrder, playbackSequence, sequencePositions, sequenceDurations, loopMode, isLoading, viewMode, replayCount]);
 
   useEffect(() => {
-    const canvas = overlayCanvasRef.current;
-    const container = containerRef.current;
-    const img = spriteSheetImage;
-
-    if (viewMode !== 'spritesheet' || !canvas || !container || !img || displayFrames.length === 0) {
-      if (canvas) {
-        const ctx = canvas.getContext('2d');
-        if (ctx) ctx.clearRect(0, 0, canvas.width, canvas.height);
-      }
-      return;
-    }
+    redrawHeldFrameRef.current?.();
+  }, [captionDraft, overlayDraft, overlayImages, watermark, selectedOverlayId, editPosition]);
 
-    const drawGrid = () => {
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
+  // A run that ends before the caption font arrives would otherwise hold a frame drawn in the fallback.
+  useEffect(() => {
+    loadCaptionFont().then(() => redrawHeldFrameRef.current?.());
+  }, []);
+  
+  const handleFramesPreview = useCallback((frameLayout: Frame[]) => {
+    const now = performance.now();
+    if (!spriteSheetImage || now - lastPreviewSliceRef.current < PREVIEW_SLICE_INTERVAL_MS) return;
+    lastPreviewSliceRef.current = now;
+    processSpriteSheet(spriteSheetImage, frameLayout);
+  }, [spriteSheetImage, processSpriteSheet]);
+
+  const handleFramesCommit = (frameLayout: Frame[]) => {
+    onAssetsChange({ ...assets, frames: frameLayout });
+  };
 
-      const containerRect = container.getBoundingClientRect();
-      canvas.width = containerRect.width;
-      canvas.height = containerRect.height;
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
+  const handleRedrawFrame = async (frameIndex: number) => {
+    const abortController = new AbortController();
+    redrawAbortRef.current = abortController;
+    setRedrawingFrame(frameIndex);
+    setRedrawError(null);
+    const previous = { imageData: assets.imageData, frames: assets.frames };
+    try {
+      const redrawn = await onRedrawFrame(assets, frameIndex, abortController.signal);
+      setSheetHistory(history => [...history, previous].slice(-MAX_SHEET_HISTORY));
+      // Keep any edits made while the request was running; only the sheet itself changes.
+      onAssetsChange({ ...assetsRef.current, imageData: redrawn.imageData, frames: redrawn.frames });
+    } catch (error) {
+      if (!(error instanceof GenerationCancelledError)) {
+        console.error("Frame redraw failed:", error);
+        setRedrawError(error instanceof Error ? error.message : 'Could not redraw the frame.');
+      }
+    } finally {
+      if (redrawAbortRef.current === abortController) {
+        redrawAbortRef.current = null;
+        setRedrawingFrame(null);
+      }
+    }
+  };
 
-      const color = '#78716c'; // stone-500
-      
-      const { scale, x: offsetX, y: offsetY } = getImageDisplayDimensions();
-      
-      ctx.strokeStyle = color;
-      ctx.lineWidth = 2;
-      
-      displayFrames.forEach((frame) => {
-          const rectX = frame.x * scale + offsetX;
-          const rectY = frame.y * scale + offsetY;
-          const rectW = frame.width * scale;
-          const rectH = frame.height * scale;
-          ctx.strokeRect(rectX, rectY, rectW, rectH);
-      });
-    };
+  const handleRefine = async (instruction: string): Promise<boolean> => {
+    const abortController = new AbortController();
+    refineAbortRef.current = abortController;
+    setIsRefining(true);
+    setRefineError(null);
+    setRefineProgress(null);
+    try {
+      await onRefine(instruction, abortController.signal, setRefineProgress);
+      return true;
+    } catch (error) {
+      if (!(error instanceof GenerationCancelledError)) {
+        console.error("Refinement failed:", error);
+        setRefineError(error instanceof Error ? error.message : 'Could not refine the animation.');
+      }
+      return false;
+    } finally {
+      refineAbortRef.current = null;
+      setIsRefining(false);
+      setRefineProgress(null);
+    }
+  };
 
-    const resizeObserver = new ResizeObserver(drawGrid);
-    resizeObserver.observe(container);
-    drawGrid();
+  // Redraw undo only makes sense within the version it was made in.
+  useEffect(() => {
+    setSheetHistory([]);
+    setRedrawError(null);
+  }, [activeVersionId]);
 
-    return () => {
-      resizeObserver.disconnect();
-    };
-// FIX: Fix typo from `viewModule` to `viewMode`.
-  }, [viewMode, spriteSheetImage, displayFrames, getImageDisplayDimensions]);
+  const handleUndoRedraw = () => {
+    const previous = sheetHistory[sheetHistory.length - 1];
+    if (!previous) return;
+    setSheetHistory(history => history.slice(0, -1));
+    onAssetsChange({ ...assets, ...previous });
+  };
 
+  const handleFramesReset = () => {
+    if (!spriteSheetImage) return;
+    onAssetsChange({ ...assets, frames: detectFrameLayout(spriteSheetImage, assets.grid ?? DEFAULT_GRID).frames });
+  };
 
  const handleExport = () => {
 // FIX: Fix typo from `viewModule` to `viewMode`.
@@ -451,16 +873,23 @@ const AnimationPlayer: React.FC<AnimationPlayerProps> = ({ assets, prompt, isSav
  };
  
   const handleShare = () => {
+    if (shareFile) {
+        sendShareFile(shareFile);
+        return;
+    }
 // FIX: Fix typo from `viewModule` to `viewMode`.
     if (viewMode === 'spritesheet') {
 // FIX: Fix typo from `setViewModule` to `setViewMode`.
         setViewMode('animation');
         setPendingAction('share');
     } else {
-        performShare();
+        prepareShareFile();
     }
   };
 
+  const exportLabel = exportSettings.format === 'gif' ? 'GIF' : exportSettings.format === 'webm' ? 'WebM' : 'MP4';
+  const exportingLabel = exportProgress ? `${exportProgress.stage} ${Math.round(exportProgress.fraction * 100)}%` : 'Exporting...';
+
   const ActionButton: React.FC<{
     onClick: () => void;
     disabled?: boolean;
@@ -492,7 +921,7 @@ const AnimationPlayer: React.FC<AnimationPlayerProps> = ({ assets, prompt, isSav
         ) : (
             <>
               <button 
-                onClick={onBack}
+                onClick={handleBack}
                 className="absolute top-4 left-4 z-20 bg-white/80 backdrop-blur-sm p-2 rounded-full text-gray-800 hover:bg-white transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-200 focus-visible:ring-gray-500"
                 aria-label="Go back"
               >
@@ -531,7 +960,17 @@ const AnimationPlayer: React.FC<AnimationPlayerProps> = ({ assets, prompt, isSav
               </div>
 
               {viewMode === 'animation' && (
-                <canvas ref={canvasRef} className={'w-full aspect-square object-contain'} />
+                <canvas
+                    ref={canvasRef}
+                    onPointerDown={handleCanvasPointerDown}
+                    onPointerMove={handleCanvasPointerMove}
+                    onPointerUp={handleCanvasPointerUp}
+                    onPointerCancel={handleCanvasPointerUp}
+                    className={`w-full aspect-square object-contain ${loopMode === 'once' ? 'cursor-pointer' : ''} ${overlayDraft.length > 0 ? 'touch-none' : ''}`}
+                    title={loopMode === 'once' ? 'Click to replay' : undefined}
+                    role="img"
+                    aria-label={assets.altText ?? `Animation: ${prompt}`}
+                />
               )}
               {viewMode === 'spritesheet' && spriteSheetImage && (
                 <>
@@ -540,11 +979,14 @@ const AnimationPlayer: React.FC<AnimationPlayerProps> = ({ assets, prompt, isSav
                       alt="Generated Sprite Sheet" 
                       className="max-w-full max-h-full object-contain bg-gray-200" 
                   />
-                  <div className="absolute bottom-0 left-0 right-0 bg-black/60 p-4 text-center z-10 backdrop-blur-sm">
-                    <p className="text-sm text-gray-200 max-w-prose mx-auto">
-                        This animation was created from a single AI-generated sprite sheet.
-                    </p>
-                  </div>
+                  <FrameBoundaryEditor
+                      image={spriteSheetImage}
+                      frames={displayFrames}
+                      onPreview={handleFramesPreview}
+                      onCommit={handleFramesCommit}
+                      onReset={handleFramesReset}
+                      onSelectionChange={setSelectedFrame}
+                  />
                 </>
               )}
                {frames.length === 0 && !isLoading && viewMode === 'animation' && (
@@ -555,31 +997,212 @@ const AnimationPlayer: React.FC<AnimationPlayerProps> = ({ assets, prompt, isSav
               )}
             </>
         )}
-        <canvas ref={overlayCanvasRef} className="absolute top-0 left-0 pointer-events-none" />
         {showControls && viewMode === 'animation' && (
-          <div className="absolute bottom-0 left-0 right-0 bg-white/90 p-4 z-30 backdrop-blur-sm space-y-2 text-gray-800 border-t border-gray-200">
-            <ControlSlider label="Animation Speed (ms/frame)" value={config.speed} min={16} max={2000} step={1} onChange={v => setConfig(c => ({...c, speed: v}))} helpText="Lower values are faster. Frame duration can be up to 2 seconds."/>
-            <button onClick={() => setConfig({ ...DEFAULT_CONFIG, speed: assets.frameDuration || DEFAULT_CONFIG.speed })} className="text-sm text-gray-600 hover:text-gray-500">Reset to Defaults</button>
+          <div className="absolute bottom-0 left-0 right-0 max-h-full overflow-y-auto bg-white/90 p-4 z-30 backdrop-blur-sm space-y-2 text-gray-800 border-t border-gray-200">
+            <ControlSlider label="Animation Speed (ms/frame)" value={averageDuration(frameDurations)} min={16} max={2000} step={1} onChange={handleSpeedChange} helpText="Lower values are faster. Scales every frame's timing together."/>
+            <div>
+              <div className="flex items-center justify-between gap-2">
+                <label htmlFor="timing-preset" className="block text-sm font-medium text-gray-700">Frame Timing</label>
+                <div className="flex items-center gap-2">
+                  <select
+                    id="timing-preset"
+                    value={timingPreset}
+                    onChange={e => handleTimingPresetChange(e.target.value as TimingPresetId)}
+                    className="bg-gray-100 text-gray-800 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                  >
+                    {TIMING_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label}</option>)}
+                  </select>
+                  {timingPreset === 'dramatic-pause' && (
+                    <select
+                      value={pauseFrame}
+                      onChange={e => handleTimingPresetChange('dramatic-pause', Number(e.target.value))}
+                      className="bg-gray-100 text-gray-800 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                      aria-label="Frame to pause on"
+                    >
+                      {frameDurations.map((_, i) => <option key={i} value={i}>on frame {i + 1}</option>)}
+                    </select>
+                  )}
+                </div>
+              </div>
+              <div className="grid grid-cols-5 gap-1 mt-2">
+                {frameDurations.map((duration, i) => (
+                  <label key={i} className="flex flex-col items-center text-[10px] text-gray-500">
+                    #{i + 1}
+                    <input
+                      type="number"
+                      value={duration}
+                      min={16}
+                      max={5000}
+                      onChange={e => handleFrameDurationChange(i, Number(e.target.value))}
+                      className="w-full bg-gray-100 text-gray-800 border border-gray-300 rounded-md px-1 py-0.5 text-center text-xs"
+                      aria-label={`Frame ${i + 1} duration in milliseconds`}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+                <input type="checkbox" checked={config.stabilize} onChange={e => setConfig(c => ({...c, stabilize: e.target.checked}))} className="accent-gray-600" />
+                Stabilize frames
+              </label>
+              {config.stabilize && (
+                <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                  <input type="checkbox" checked={config.stabilizeScale} onChange={e => setConfig(c => ({...c, stabilizeScale: e.target.checked}))} className="accent-gray-600" />
+                  Also fix zoom drift
+                </label>
+              )}
+            </div>
+            {config.stabilize && (
+              <ControlSlider label="Stabilization Strength (%)" value={config.stabilizationStrength} min={0} max={100} step={5} onChange={v => setConfig(c => ({...c, stabilizationStrength: v}))} helpText="Aligns each frame to the first one. Lower it if the subject's own movement gets flattened."/>
+            )}
+            {assets.metadataSources && (
+              <dl className="text-xs text-gray-600 space-y-1 border-t border-gray-200 pt-2">
+                {([
+                  ['Timing', assets.metadataSources.frameDurations !== 'fallback' && assets.frameDurations ? 'per frame' : `${assets.frameDuration}ms`, assets.metadataSources.frameDuration],
+                  ['Loop', assets.loopMode ?? 'loop', assets.metadataSources.loopType],
+                  ['Caption', assets.caption ?? '—', assets.metadataSources.caption],
+                  ['Alt text', assets.altText ?? '—', assets.metadataSources.altText],
+                ] as const).map(([label, value, source]) => (
+                  <div key={label} className="flex gap-2">
+                    <dt className="w-16 flex-shrink-0 font-medium text-gray-700">{label}</dt>
+                    <dd className="flex-1">
+                      {value}{' '}
+                      <span className={`ml-1 px-1.5 rounded-full ${source === 'model' ? 'bg-green-100 text-green-800' : source === 'edited' ? 'bg-blue-100 text-blue-800' : 'bg-gray-200 text-gray-600'}`}>
+                        {source === 'model' ? 'from model' : source === 'edited' ? 'edited' : 'default'}
+                      </span>
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+            <button onClick={handleResetConfig} className="text-sm text-gray-600 hover:text-gray-500">Reset to Defaults</button>
           </div>
         )}
       </div>
 
+    {!isLoading && viewMode === 'spritesheet' && (
+      <div className="w-full bg-white border-2 border-gray-300 rounded-xl p-3 mb-4 shadow-sm" aria-live="polite">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm text-gray-700">
+            {redrawingFrame !== null
+              ? `Redrawing frame ${redrawingFrame + 1}...`
+              : selectedFrame !== null
+                ? `Frame ${selectedFrame + 1} selected.`
+                : 'Select a frame to redraw just that one.'}
+          </p>
+          <div className="flex items-center gap-2">
+            {redrawingFrame !== null ? (
+              <button
+                onClick={() => redrawAbortRef.current?.abort()}
+                className="px-3 py-1 text-xs font-semibold rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100"
+              >
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={() => selectedFrame !== null && handleRedrawFrame(selectedFrame)}
+                disabled={selectedFrame === null}
+                className="flex items-center gap-1 px-3 py-1 text-xs font-semibold rounded-lg bg-red-500 text-white hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <RefreshCwIcon className="w-3 h-3" /> Redraw frame
+              </button>
+            )}
+            <button
+              onClick={handleUndoRedraw}
+              disabled={sheetHistory.length === 0 || redrawingFrame !== null}
+              className="flex items-center gap-1 px-3 py-1 text-xs font-semibold rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Undo the last frame redraw"
+            >
+              <RotateCcwIcon className="w-3 h-3" /> Undo
+            </button>
+          </div>
+        </div>
+        {redrawError && <p className="text-xs text-red-600 mt-2">{redrawError}</p>}
+      </div>
+    )}
+
+    {!isLoading && viewMode === 'spritesheet' && playbackFrames.length > 0 && (
+      <SpriteSheetExportPanel onExport={handleSpriteSheetExport} />
+    )}
+
+    {!isLoading && viewMode === 'animation' && (
+      <RefinementPanel
+          versions={versions}
+          activeVersionId={activeVersionId}
+          onSelectVersion={onSelectVersion}
+          onRefine={handleRefine}
+          onCancel={() => refineAbortRef.current?.abort()}
+          isRefining={isRefining}
+          progress={refineProgress}
+          error={refineError}
+      />
+    )}
+
+    {!isLoading && viewMode === 'animation' && playbackFrames.length > 0 && (
+      <FrameSequenceEditor
+          frames={playbackFrames}
+          frameOrder={frameOrder}
+          loopMode={loopMode}
+          onChange={handleSequenceChange}
+      />
+    )}
+
+    {!isLoading && viewMode === 'animation' && playbackFrames.length > 0 && (
+      <CaptionEditor
+          captions={captionDraft}
+          frameCount={frameOrder.length}
+          suggestedCaption={assets.caption}
+          onChange={handleCaptionsChange}
+      />
+    )}
+
+    {!isLoading && viewMode === 'animation' && playbackFrames.length > 0 && (
+      <OverlayEditor
+          overlays={overlayDraft}
+          selectedId={selectedOverlayId}
+          onSelect={handleSelectOverlay}
+          onChange={handleOverlaysChange}
+          frameCount={frameOrder.length}
+          editPosition={Math.min(editPosition, frameOrder.length - 1)}
+          onEditPositionChange={setEditPosition}
+          watermark={watermark}
+          onWatermarkChange={onWatermarkChange}
+      />
+    )}
+
+    <ExportOptions
+        settings={exportSettings}
+        formats={exportFormats}
+        presetId={exportPresetId}
+        onChange={handleExportSettingsChange}
+        onPresetChange={handleExportPresetChange}
+        disabled={isExporting || isSharing}
+    />
+    {exportNotes && (
+      <ul className={`w-full text-xs -mt-2 mb-3 list-disc pl-4 ${exportNotes.withinBudget ? 'text-gray-600' : 'text-amber-700'}`} role="status">
+        {exportNotes.notes.map(note => <li key={note}>{note}</li>)}
+      </ul>
+    )}
+
     <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 w-full max-w-lg">
-        <ActionButton onClick={onRegenerate} className="bg-red-500 text-white hover:bg-red-600 focus-visible:ring-red-500" aria-label="Regenerate meme">
-            <RefreshCwIcon className="w-5 h-5" /> Regenerate
-        </ActionButton>
+        {onRegenerate && (
+            <ActionButton onClick={handleRegenerate} className="bg-red-500 text-white hover:bg-red-600 focus-visible:ring-red-500" aria-label="Regenerate meme">
+                <RefreshCwIcon className="w-5 h-5" /> Regenerate
+            </ActionButton>
+        )}
 
         <ActionButton onClick={() => onSave(assets, prompt)} disabled={isSaved} className="bg-gray-500 text-white hover:bg-gray-600 focus-visible:ring-gray-500" aria-label="Save to collection">
              <SaveIcon className="w-5 h-5" /> {isSaved ? 'Saved' : 'Save'}
         </ActionButton>
 
-        <ActionButton onClick={handleExport} disabled={isExporting} className="bg-green-500 text-white hover:bg-green-600 focus-visible:ring-green-500" aria-label="Export as GIF">
-            <DownloadIcon className="w-5 h-5" /> {isExporting ? 'Exporting...' : 'Export GIF'}
+        <ActionButton onClick={handleExport} disabled={isExporting} className="bg-green-500 text-white hover:bg-green-600 focus-visible:ring-green-500" aria-label={`Export as ${exportLabel}`}>
+            <DownloadIcon className="w-5 h-5" /> {isExporting ? exportingLabel : `Export ${exportLabel}`}
         </ActionButton>
         
         {isShareAvailable && (
-            <ActionButton onClick={handleShare} disabled={isSharing} className="bg-blue-500 text-white hover:bg-blue-600 focus-visible:ring-blue-500 col-span-2 sm:col-span-1" aria-label="Share animation">
-                <ShareIcon className="w-5 h-5" /> {isSharing ? 'Sharing...' : 'Share'}
+            <ActionButton onClick={handleShare} disabled={isSharing} className="bg-blue-500 text-white hover:bg-blue-600 focus-visible:ring-blue-500 col-span-2 sm:col-span-1" aria-label={shareFile ? 'Share the prepared animation' : 'Share animation'}>
+                <ShareIcon className="w-5 h-5" /> {isSharing ? (exportProgress ? exportingLabel : 'Preparing...') : shareFile ? 'Ready — tap to share' : 'Share'}
             </ActionButton>
         )}
 
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Caption, CaptionPosition } from '../types';
+import { MAX_CAPTION_SIZE, MIN_CAPTION_SIZE, createCaption } from '../services/captionRenderer';
+import { TrashIcon } from './icons';
+
+interface CaptionEditorProps {
+  captions: Caption[];
+  /** Number of frames in the current frame order, for the frame range pickers. */
+  frameCount: number;
+  /** Caption the model suggested, offered as a one-click starting point. */
+  suggestedCaption?: string;
+  onChange: (captions: Caption[]) => void;
+}
+
+const POSITIONS: { id: CaptionPosition; label: string }[] = [
+  { id: 'top', label: 'Top' },
+  { id: 'middle', label: 'Middle' },
+  { id: 'bottom', label: 'Bottom' },
+];
+
+const selectClass = 'bg-gray-100 text-gray-800 border border-gray-300 rounded-md px-1 py-0.5 text-xs';
+
+/** Top/bottom meme text controls. Every change is reported straight away; the player decides when to save. */
+const CaptionEditor: React.FC<CaptionEditorProps> = ({ captions, frameCount, suggestedCaption, onChange }) => {
+  const update = (id: string, patch: Partial<Caption>) =>
+    onChange(captions.map(caption => caption.id === id ? { ...caption, ...patch } : caption));
+
+  const handleAdd = () => {
+    const hasTop = captions.some(caption => caption.position === 'top');
+    onChange([...captions, createCaption(hasTop ? 'Bottom text' : (suggestedCaption ?? 'Top text'), hasTop ? 'bottom' : 'top')]);
+  };
+
+  const frameOptions = Array.from({ length: frameCount }, (_, i) => <option key={i} value={i}>{i + 1}</option>);
+
+  return (
+    <div className="w-full bg-white border-2 border-gray-300 rounded-xl p-3 mb-4 shadow-sm space-y-3">
+      {captions.map(caption => (
+        <div key={caption.id} className="space-y-2 pb-3 border-b border-gray-200 last:border-b-0 last:pb-0">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={caption.text}
+              onChange={e => update(caption.id, { text: e.target.value })}
+              className="flex-1 bg-gray-100 text-gray-800 border border-gray-300 rounded-lg px-3 py-1.5 text-sm uppercase font-bold"
+              aria-label="Caption text"
+            />
+            <input
+              type="color"
+              value={caption.color}
+              onChange={e => update(caption.id, { color: e.target.value })}
+              className="w-8 h-8 rounded cursor-pointer"
+              aria-label="Text colour"
+              title="Text colour"
+            />
+            <input
+              type="color"
+              value={caption.outlineColor}
+              onChange={e => update(caption.id, { outlineColor: e.target.value })}
+              className="w-8 h-8 rounded cursor-pointer"
+              aria-label="Outline colour"
+              title="Outline colour"
+            />
+            <button onClick={() => onChange(captions.filter(c => c.id !== caption.id))} className="p-1 text-gray-500 hover:text-red-600" aria-label="Remove caption">
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-600">
+            <div className="flex rounded-md border border-gray-300 overflow-hidden" role="radiogroup" aria-label="Caption position">
+              {POSITIONS.map(position => (
+                <button
+                  key={position.id}
+                  role="radio"
+                  aria-checked={caption.position === position.id}
+                  onClick={() => update(caption.id, { position: position.id })}
+                  className={`px-2 py-0.5 font-semibold ${caption.position === position.id ? 'bg-gray-700 text-white' : 'bg-white hover:bg-gray-100'}`}
+                >
+                  {position.label}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-1">
+              Size
+              <input
+                type="range"
+                min={MIN_CAPTION_SIZE}
+                max={MAX_CAPTION_SIZE}
+                step={0.01}
+                value={caption.size}
+                onChange={e => update(caption.id, { size: Number(e.target.value) })}
+                className="w-20 accent-gray-600"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={!caption.frameRange}
+                onChange={e => update(caption.id, { frameRange: e.target.checked ? null : { start: 0, end: Math.max(0, frameCount - 1) } })}
+                className="accent-gray-600"
+              />
+              All frames
+            </label>
+            {caption.frameRange && (
+              <span className="flex items-center gap-1">
+                Frames
+                <select
+                  value={Math.min(caption.frameRange.start, frameCount - 1)}
+                  onChange={e => {
+                    const start = Number(e.target.value);
+                    update(caption.id, { frameRange: { start, end: Math.max(start, caption.frameRange!.end) } });
+                  }}
+                  className={selectClass}
+                  aria-label="First frame"
+                >
+                  {frameOptions}
+                </select>
+                to
+                <select
+                  value={Math.min(caption.frameRange.end, frameCount - 1)}
+                  onChange={e => {
+                    const end = Number(e.target.value);
+                    update(caption.id, { frameRange: { start: Math.min(end, caption.frameRange!.start), end } });
+                  }}
+                  className={selectClass}
+                  aria-label="Last frame"
+                >
+                  {frameOptions}
+                </select>
+              </span>
+            )}
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center gap-3">
+        <button onClick={handleAdd} className="px-3 py-1 text-xs font-semibold rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100">
+          + Add caption
+        </button>
+        {suggestedCaption && !captions.some(caption => caption.text === suggestedCaption) && (
+          <button
+            onClick={() => onChange([...captions, createCaption(suggestedCaption, captions.some(c => c.position === 'bottom') ? 'top' : 'bottom')])}
+            className="text-xs text-gray-500 hover:text-gray-800 underline truncate"
+            title={suggestedCaption}
+          >
+            Use suggested: "{suggestedCaption}"
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CaptionEditor;
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CreationRecord } from '../types';
+import { loadThumbnail } from '../services/creationStore';
+
+interface CreationThumbnailProps {
+  record: CreationRecord;
+  alt: string;
+  className?: string;
+  onClick?: () => void;
+}
+
+/** A saved creation's first frame, only read from storage once it scrolls into view. */
+const CreationThumbnail: React.FC<CreationThumbnailProps> = ({ record, alt, className = '', onClick }) => {
+  const placeholderRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    const element = placeholderRef.current;
+    if (isVisible || !element) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) setIsVisible(true);
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [isVisible]);
+
+  useEffect(() => {
+    if (!isVisible) return;
+    let isCancelled = false;
+    let url: string | null = null;
+    loadThumbnail(record)
+      .then(blob => {
+        if (isCancelled) return;
+        url = URL.createObjectURL(blob);
+        setSrc(url);
+      })
+      .catch(error => console.error("Could not load thumbnail:", error));
+    return () => {
+      isCancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+    // The thumbnail only changes when the creation's current sheet or frames do.
+  }, [isVisible, record.id, record.assets.imageData.imageId, record.assets.frames, record.assets.frameOrder]);
+
+  return src
+    ? <img src={src} alt={alt} onClick={onClick} className={className} />
+    : <div ref={placeholderRef} onClick={onClick} className={`${className} bg-gray-200 animate-pulse`} role="img" aria-label={alt} />;
+};
+
+export default CreationThumbnail;
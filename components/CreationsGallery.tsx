@@ -3,70 +3,415 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
-import { Creation } from '../types';
-import { XCircleIcon, TrashIcon } from './icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Creation, CreationRecord } from '../types';
+import { ART_STYLES, getArtStyle } from '../styles';
+import { SBF_PRESETS } from '../presets';
+import { StorageUsage, getStorageUsage } from '../services/creationStore';
+import { createCollectionZip } from '../services/collectionExport';
+import {
+    DEFAULT_GALLERY_FILTERS,
+    GALLERY_SORTS,
+    GalleryFilters,
+    GallerySort,
+    IMPORTED_SOURCE,
+    UPLOAD_SOURCE,
+    filterCreations,
+    parseTags,
+    sourceOf,
+    styleOf,
+} from '../services/gallerySearch';
+import CreationThumbnail from './CreationThumbnail';
+import VirtualGrid from './VirtualGrid';
+import { XCircleIcon, TrashIcon, RefreshCwIcon, StarIcon, TagIcon, SearchIcon, DownloadIcon, CheckIcon } from './icons';
 
 interface CreationsGalleryProps {
-    creations: Creation[];
+    creations: CreationRecord[];
     onClose: () => void;
-    onView: (creation: Creation) => void;
-    onDelete: (id: string) => void;
+    onView: (creation: CreationRecord) => void;
+    /** Resolves to whether the creations were deleted; failures are already reported. */
+    onDelete: (ids: string[]) => Promise<boolean>;
+    /** Loads the creation's prompt, style and grid back into the capture screen. */
+    onRerun: (creation: CreationRecord) => void;
+    /** Saves the details only the gallery edits. */
+    /** Resolves once the change is stored, or has failed and been reported. */
+    onUpdate: (id: string, patch: Partial<Pick<Creation, 'tags' | 'favorite'>>) => Promise<void>;
 }
 
-const CreationsGallery: React.FC<CreationsGalleryProps> = ({ creations, onClose, onView, onDelete }) => {
+// Room under each thumbnail for the prompt and tags.
+const TILE_FOOTER_HEIGHT = 44;
+
+const formatBytes = (bytes: number) => {
+    if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+    if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+    return `${Math.round(bytes / 1024)} KB`;
+};
+
+const sourceLabel = (source: string) => {
+    if (source === UPLOAD_SOURCE) return 'Uploaded photo';
+    if (source === IMPORTED_SOURCE) return 'Imported';
+    const presetIndex = SBF_PRESETS.indexOf(source);
+    return presetIndex >= 0 ? `SBF ${presetIndex + 1}` : 'Preset';
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const chipClass = (isActive: boolean) =>
+    `px-3 py-1 rounded-full text-sm border transition-colors ${isActive ? 'bg-gray-800 text-white border-gray-800' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`;
+
+const CreationsGallery: React.FC<CreationsGalleryProps> = ({ creations, onClose, onView, onDelete, onRerun, onUpdate }) => {
+    const [filters, setFilters] = useState<GalleryFilters>(DEFAULT_GALLERY_FILTERS);
+    const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+    const [isSelecting, setIsSelecting] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [editingTagsId, setEditingTagsId] = useState<string | null>(null);
+    const [isExportingZip, setIsExportingZip] = useState(false);
+    const [bulkError, setBulkError] = useState<string | null>(null);
+    // A star flips the stored value, so it waits for its last write before it can flip again.
+    const [pendingFavoriteIds, setPendingFavoriteIds] = useState<Set<string>>(new Set());
+    const updateFilters = (patch: Partial<GalleryFilters>) => setFilters(current => ({ ...current, ...patch }));
+
+    useEffect(() => {
+        getStorageUsage()
+            .then(setStorageUsage)
+            .catch(error => console.error("Could not read storage usage:", error));
+    }, [creations]);
+
+    // Deleted creations can't stay selected.
+    useEffect(() => {
+        setSelectedIds(current => {
+            const ids = new Set(creations.map(creation => creation.id));
+            const kept = new Set([...current].filter(id => ids.has(id)));
+            return kept.size === current.size ? current : kept;
+        });
+    }, [creations]);
+
+    const usedStyles = useMemo(() => {
+        const ids = new Set(creations.map(styleOf));
+        return ART_STYLES.filter(style => ids.has(style.id));
+    }, [creations]);
+    const usedSources = useMemo(() => [...new Set(creations.map(sourceOf))], [creations]);
+    const usedTags = useMemo(() => [...new Set(creations.flatMap(creation => creation.tags ?? []))].sort(), [creations]);
+    const variantGroupSizes = useMemo(() => {
+        const sizes = new Map<string, number>();
+        creations.forEach(creation => {
+            if (creation.variantGroupId) sizes.set(creation.variantGroupId, (sizes.get(creation.variantGroupId) ?? 0) + 1);
+        });
+        return sizes;
+    }, [creations]);
+    const visibleCreations = useMemo(() => filterCreations(creations, filters), [creations, filters]);
+    const selectedCreations = creations.filter(creation => selectedIds.has(creation.id));
+
+    const toggleSelected = (id: string) => setSelectedIds(current => {
+        const next = new Set(current);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+
+    const handleToggleSelecting = () => {
+        setIsSelecting(current => !current);
+        setSelectedIds(new Set());
+        setBulkError(null);
+    };
+
+    const handleBulkDelete = async () => {
+        if (selectedIds.size === 0) return;
+        if (!window.confirm(`Delete ${selectedIds.size} ${selectedIds.size === 1 ? 'meme' : 'memes'}? This can't be undone.`)) return;
+        // Keep the selection if the delete fails, so it can be tried again.
+        if (await onDelete([...selectedIds])) setSelectedIds(new Set());
+    };
+
+    const handleBulkExport = async () => {
+        if (selectedCreations.length === 0) return;
+        setIsExportingZip(true);
+        setBulkError(null);
+        try {
+            const zip = await createCollectionZip(selectedCreations);
+            downloadBlob(zip, `sbf-memes-${selectedCreations.length}.zip`);
+        } catch (e) {
+            console.error("Bulk export failed:", e);
+            setBulkError(e instanceof Error ? e.message : 'Could not export the selected memes.');
+        } finally {
+            setIsExportingZip(false);
+        }
+    };
+
+    const handleToggleFavorite = (creation: CreationRecord) => {
+        if (pendingFavoriteIds.has(creation.id)) return;
+        setPendingFavoriteIds(current => new Set(current).add(creation.id));
+        onUpdate(creation.id, { favorite: !creation.favorite }).finally(() => setPendingFavoriteIds(current => {
+            const next = new Set(current);
+            next.delete(creation.id);
+            return next;
+        }));
+    };
+
+    const saveTags = (creation: CreationRecord, text: string) => {
+        setEditingTagsId(null);
+        const tags = parseTags(text);
+        if (tags.join(',') !== (creation.tags ?? []).join(',')) onUpdate(creation.id, { tags });
+    };
+
+    const renderTile = (creation: CreationRecord) => {
+        const isSelected = selectedIds.has(creation.id);
+        const handleOpen = () => isSelecting ? toggleSelected(creation.id) : onView(creation);
+        const variantCount = creation.variantGroupId ? variantGroupSizes.get(creation.variantGroupId) ?? 0 : 0;
+        return (
+            <div className="w-full h-full flex flex-col">
+                <div className={`relative group aspect-square rounded-lg ${isSelected ? 'ring-4 ring-blue-500' : ''}`}>
+                    <CreationThumbnail
+                        record={creation}
+                        alt={creation.prompt || 'Saved animation'}
+                        onClick={handleOpen}
+                        className="cursor-pointer rounded-lg shadow-md w-full h-full object-cover transition-all duration-300 ease-in-out group-hover:scale-105 group-hover:shadow-xl border border-gray-200"
+                    />
+                    <div
+                        onClick={handleOpen}
+                        className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center cursor-pointer rounded-lg"
+                    >
+                        <p className="text-white text-center text-xs sm:text-sm p-2 line-clamp-3">{creation.prompt || 'View'}</p>
+                    </div>
+                    {isSelecting ? (
+                        <span
+                            className={`absolute top-2 left-2 w-7 h-7 rounded-full border-2 flex items-center justify-center pointer-events-none ${isSelected ? 'bg-blue-500 border-blue-500 text-white' : 'bg-white/80 border-gray-400'}`}
+                            aria-hidden="true"
+                        >
+                            {isSelected && <CheckIcon className="w-4 h-4" />}
+                        </span>
+                    ) : (
+                        <>
+                            <button
+                                onClick={() => onDelete([creation.id])}
+                                className="absolute top-2 right-2 bg-white/70 text-red-600 hover:bg-white hover:text-red-500 p-1.5 rounded-full transition-all opacity-50 group-hover:opacity-100"
+                                aria-label="Delete meme"
+                            >
+                                <TrashIcon className="w-5 h-5" />
+                            </button>
+                            {/* Imports have no photo or prompt to generate from. */}
+                            {creation.source !== 'imported' && (
+                                <button
+                                    onClick={() => onRerun(creation)}
+                                    className="absolute top-2 left-2 bg-white/70 text-gray-700 hover:bg-white hover:text-gray-900 p-1.5 rounded-full transition-all opacity-50 group-hover:opacity-100"
+                                    aria-label={`Re-run in the ${getArtStyle(creation.styleId).label} style`}
+                                    title={`Re-run (${getArtStyle(creation.styleId).label})`}
+                                >
+                                    <RefreshCwIcon className="w-5 h-5" />
+                                </button>
+                            )}
+                        </>
+                    )}
+                    {variantCount > 1 && (
+                        <span
+                            className="absolute bottom-2 left-2 bg-white/80 text-gray-700 text-xs font-semibold px-2 py-0.5 rounded-full pointer-events-none"
+                            title="Kept from the same prompt as other variants"
+                        >
+                            {variantCount} variants
+                        </span>
+                    )}
+                    {isSelecting ? (
+                        creation.favorite && (
+                            <span className="absolute bottom-2 right-2 bg-white/70 p-1.5 rounded-full text-yellow-500 pointer-events-none" aria-hidden="true">
+                                <StarIcon className="w-5 h-5" fill="currentColor" />
+                            </span>
+                        )
+                    ) : (
+                        <button
+                            onClick={() => handleToggleFavorite(creation)}
+                            disabled={pendingFavoriteIds.has(creation.id)}
+                            className={`absolute bottom-2 right-2 bg-white/70 hover:bg-white p-1.5 rounded-full transition-all disabled:cursor-wait ${creation.favorite ? 'text-yellow-500' : 'text-gray-600 opacity-50 group-hover:opacity-100'}`}
+                            aria-label={creation.favorite ? 'Remove from favourites' : 'Add to favourites'}
+                            aria-pressed={!!creation.favorite}
+                        >
+                            <StarIcon className="w-5 h-5" fill={creation.favorite ? 'currentColor' : 'none'} />
+                        </button>
+                    )}
+                </div>
+                <div className="pt-1 min-w-0" style={{ height: TILE_FOOTER_HEIGHT }}>
+                    <p className="text-sm text-gray-700 truncate" title={creation.prompt}>{creation.prompt || 'Untitled'}</p>
+                    {editingTagsId === creation.id ? (
+                        <input
+                            autoFocus
+                            defaultValue={(creation.tags ?? []).join(', ')}
+                            placeholder="funny, crypto"
+                            onBlur={e => saveTags(creation, e.target.value)}
+                            onKeyDown={e => {
+                                if (e.key === 'Enter') saveTags(creation, e.currentTarget.value);
+                                if (e.key === 'Escape') setEditingTagsId(null);
+                            }}
+                            className="w-full bg-gray-100 border border-gray-300 rounded px-1 text-xs"
+                            aria-label="Tags, separated by commas"
+                        />
+                    ) : (
+                        <div className="flex items-center gap-1 text-xs text-gray-500 overflow-hidden whitespace-nowrap">
+                            <button onClick={() => setEditingTagsId(creation.id)} className="shrink-0 hover:text-gray-800" aria-label="Edit tags" title="Edit tags">
+                                <TagIcon className="w-3 h-3" />
+                            </button>
+                            {(creation.tags ?? []).map(tag => (
+                                <button key={tag} onClick={() => updateFilters({ tag })} className="hover:text-gray-800">#{tag}</button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    const selectClass = 'bg-gray-100 text-gray-800 border border-gray-300 rounded-md px-2 py-1 text-sm';
+
     return (
-        <div 
+        <div
             className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
             onClick={onClose}
             role="dialog"
             aria-modal="true"
             aria-labelledby="gallery-title"
         >
-            <div 
+            <div
                 className="bg-white rounded-2xl shadow-2xl p-4 sm:p-6 w-full max-w-4xl max-h-[90vh] flex flex-col border-2 border-gray-300"
                 onClick={e => e.stopPropagation()}
             >
                 <div className="flex justify-between items-center mb-4 shrink-0">
-                    <h2 id="gallery-title" className="text-4xl text-gray-800">
-                        My Memes
-                    </h2>
-                    <button 
-                        onClick={onClose} 
+                    <div>
+                        <h2 id="gallery-title" className="text-4xl text-gray-800">
+                            My Memes
+                        </h2>
+                        {storageUsage && (
+                            <p className="text-xs text-gray-500" title="Space the browser lets this site use on your device">
+                                {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} used
+                            </p>
+                        )}
+                    </div>
+                    <button
+                        onClick={onClose}
                         className="text-gray-500 hover:text-gray-800 transition-colors"
                         aria-label="Close gallery"
                     >
                         <XCircleIcon className="w-8 h-8" />
                     </button>
                 </div>
-                {creations.length > 0 ? (
-                    <div className="overflow-y-auto no-scrollbar pr-2 -mr-2">
-                        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-                            {creations.map(creation => (
-                                <div key={creation.id} className="relative group aspect-square">
-                                    <img 
-                                        src={`data:${creation.assets.imageData.mimeType};base64,${creation.assets.imageData.data}`} 
-                                        alt={creation.prompt || 'Saved animation'}
-                                        onClick={() => onView(creation)} 
-                                        className="cursor-pointer rounded-lg shadow-md w-full h-full object-cover transition-all duration-300 ease-in-out group-hover:scale-105 group-hover:shadow-xl border border-gray-200" 
-                                    />
-                                    <div 
-                                        onClick={() => onView(creation)}
-                                        className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center cursor-pointer rounded-lg"
+                {creations.length > 0 && (
+                    <div className="shrink-0 space-y-2 mb-4">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <label className="flex-1 min-w-[12rem] flex items-center gap-2 bg-gray-100 border border-gray-300 rounded-md px-2 py-1">
+                                <SearchIcon className="w-4 h-4 text-gray-500 shrink-0" />
+                                <input
+                                    type="search"
+                                    value={filters.query}
+                                    onChange={e => updateFilters({ query: e.target.value })}
+                                    placeholder="Search prompts, tags and captions"
+                                    className="w-full bg-transparent text-sm focus:outline-none"
+                                    aria-label="Search memes"
+                                />
+                            </label>
+                            <select value={filters.sort} onChange={e => updateFilters({ sort: e.target.value as GallerySort })} className={selectClass} aria-label="Sort memes">
+                                {GALLERY_SORTS.map(sort => <option key={sort.id} value={sort.id}>{sort.label}</option>)}
+                            </select>
+                            <button onClick={() => updateFilters({ favoritesOnly: !filters.favoritesOnly })} aria-pressed={filters.favoritesOnly} className={`${chipClass(filters.favoritesOnly)} flex items-center gap-1`}>
+                                <StarIcon className="w-4 h-4" fill={filters.favoritesOnly ? 'currentColor' : 'none'} /> Favourites
+                            </button>
+                            <button onClick={handleToggleSelecting} aria-pressed={isSelecting} className={chipClass(isSelecting)}>
+                                {isSelecting ? 'Done' : 'Select'}
+                            </button>
+                        </div>
+                        {usedStyles.length > 1 && (
+                            <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Filter by style">
+                                {[{ id: null, label: 'All styles' }, ...usedStyles].map(style => (
+                                    <button
+                                        key={style.id ?? 'all'}
+                                        onClick={() => updateFilters({ styleId: style.id })}
+                                        role="radio"
+                                        aria-checked={filters.styleId === style.id}
+                                        className={chipClass(filters.styleId === style.id)}
                                     >
-                                        <p className="text-white text-center text-xs sm:text-sm p-2 line-clamp-3">{creation.prompt || 'View'}</p>
-                                    </div>
-                                    <button 
-                                        onClick={() => onDelete(creation.id)} 
-                                        className="absolute top-2 right-2 bg-white/70 text-red-600 hover:bg-white hover:text-red-500 p-1.5 rounded-full transition-all opacity-50 group-hover:opacity-100"
-                                        aria-label="Delete meme"
+                                        {style.label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        {usedSources.length > 1 && (
+                            <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Filter by source">
+                                {[null, ...usedSources].map(source => (
+                                    <button
+                                        key={source ?? 'all'}
+                                        onClick={() => updateFilters({ source })}
+                                        role="radio"
+                                        aria-checked={filters.source === source}
+                                        className={chipClass(filters.source === source)}
                                     >
-                                        <TrashIcon className="w-5 h-5" />
+                                        {source ? sourceLabel(source) : 'All sources'}
                                     </button>
-                                </div>
-                            ))}
-                        </div>
+                                ))}
+                            </div>
+                        )}
+                        {usedTags.length > 0 && (
+                            <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Filter by tag">
+                                {[null, ...usedTags].map(tag => (
+                                    <button
+                                        key={tag ?? 'all'}
+                                        onClick={() => updateFilters({ tag })}
+                                        role="radio"
+                                        aria-checked={filters.tag === tag}
+                                        className={chipClass(filters.tag === tag)}
+                                    >
+                                        {tag ? `#${tag}` : 'All tags'}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        {isSelecting && (
+                            <div className="flex flex-wrap items-center gap-2 bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-700">
+                                <span className="mr-auto">{selectedIds.size} selected</span>
+                                <button onClick={() => setSelectedIds(new Set(visibleCreations.map(creation => creation.id)))} className="underline hover:text-gray-900">
+                                    Select all {visibleCreations.length}
+                                </button>
+                                <button onClick={() => setSelectedIds(new Set())} disabled={selectedIds.size === 0} className="underline hover:text-gray-900 disabled:opacity-50">
+                                    Clear
+                                </button>
+                                <button
+                                    onClick={handleBulkExport}
+                                    disabled={selectedIds.size === 0 || isExportingZip}
+                                    className="flex items-center gap-1 px-3 py-1 font-semibold rounded-lg bg-green-500 text-white hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <DownloadIcon className="w-4 h-4" /> {isExportingZip ? 'Zipping...' : 'Download zip'}
+                                </button>
+                                <button
+                                    onClick={handleBulkDelete}
+                                    disabled={selectedIds.size === 0}
+                                    className="flex items-center gap-1 px-3 py-1 font-semibold rounded-lg bg-red-500 text-white hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <TrashIcon className="w-4 h-4" /> Delete
+                                </button>
+                                {bulkError && <p className="w-full text-xs text-red-600">{bulkError}</p>}
+                            </div>
+                        )}
                     </div>
+                )}
+                {creations.length > 0 ? (
+                    visibleCreations.length > 0 ? (
+                        <VirtualGrid
+                            items={visibleCreations}
+                            getKey={creation => creation.id}
+                            renderItem={renderTile}
+                            footerHeight={TILE_FOOTER_HEIGHT}
+                            className="min-h-0 no-scrollbar"
+                        />
+                    ) : (
+                        <div className="text-center text-gray-600 py-8">
+                            <p className="text-lg">No memes match these filters.</p>
+                            <button onClick={() => setFilters({ ...DEFAULT_GALLERY_FILTERS, sort: filters.sort })} className="mt-2 text-sm underline hover:text-gray-900">
+                                Clear filters
+                            </button>
+                        </div>
+                    )
                 ) : (
                     <div className="flex-grow flex flex-col items-center justify-center text-center text-gray-700 bg-gray-50 rounded-lg p-8 border border-dashed border-gray-300">
                         <p className="text-5xl mb-4">✍️</p>
@@ -79,4 +424,4 @@ const CreationsGallery: React.FC<CreationsGalleryProps> = ({ creations, onClose,
     );
 };
 
-export default CreationsGallery;
\ No newline at end of file
+export default CreationsGallery;
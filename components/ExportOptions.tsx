@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ExportFormat, ExportSettings } from '../types';
+import { GifPaletteMode } from '../services/gifEncoder';
+import { EXPORT_PRESETS, ExportPresetId, getExportPreset } from '../services/exportPresets';
+
+interface ExportOptionsProps {
+  settings: ExportSettings;
+  /** Formats this browser can produce; GIF is always available. */
+  formats: ExportFormat[];
+  /** The platform preset the settings came from; `null` once the user changes anything by hand. */
+  presetId: ExportPresetId | null;
+  onChange: (settings: ExportSettings) => void;
+  onPresetChange: (id: ExportPresetId | null) => void;
+  disabled?: boolean;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  gif: 'GIF',
+  webm: 'WebM video',
+  mp4: 'MP4 video',
+};
+
+const EXPORT_SIZES = [128, 256, 512, 720, 1080];
+const VIDEO_BITRATES = [
+  { value: 1_000_000, label: 'Small (1 Mbps)' },
+  { value: 2_500_000, label: 'Balanced (2.5 Mbps)' },
+  { value: 5_000_000, label: 'High (5 Mbps)' },
+  { value: 8_000_000, label: 'Best (8 Mbps)' },
+];
+const MAX_LOOP_COUNT = 10;
+const GIF_COLORS = [256, 128, 64, 32, 16];
+const GIF_PALETTES: { id: GifPaletteMode; label: string }[] = [
+  { id: 'global', label: 'Shared' },
+  { id: 'per-frame', label: 'Per frame' },
+];
+const SIZE_TARGETS_KB = [128, 256, 512, 1024, 2048, 5120, 8192];
+
+const formatKb = (kb: number) => kb >= 1024 ? `${kb / 1024} MB` : `${kb} KB`;
+
+const selectClass = 'bg-gray-100 text-gray-800 border border-gray-300 rounded-md px-1 py-0.5 text-xs disabled:opacity-60';
+
+/** Format and quality settings used by both the Export and Share buttons. */
+const ExportOptions: React.FC<ExportOptionsProps> = ({ settings, formats, presetId, onChange, onPresetChange, disabled }) => {
+  const isVideo = settings.format !== 'gif';
+  const update = (patch: Partial<ExportSettings>) => onChange({ ...settings, ...patch });
+  const preset = getExportPreset(presetId);
+
+  return (
+    <div className="w-full flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-600 mb-3">
+      <label className="flex items-center gap-1">
+        Preset
+        <select
+          value={presetId ?? ''}
+          onChange={e => onPresetChange((e.target.value || null) as ExportPresetId | null)}
+          disabled={disabled}
+          className={selectClass}
+        >
+          <option value="">Custom</option>
+          {EXPORT_PRESETS.map(option => {
+            const isSupported = !option.settings.format || formats.includes(option.settings.format);
+            return (
+              <option key={option.id} value={option.id} disabled={!isSupported}>
+                {option.label}{isSupported ? '' : ' (not supported in this browser)'}
+              </option>
+            );
+          })}
+        </select>
+      </label>
+      {preset && <span className="text-gray-500">{preset.description}</span>}
+      <label className="flex items-center gap-1">
+        Format
+        <select value={settings.format} onChange={e => update({ format: e.target.value as ExportFormat })} disabled={disabled} className={selectClass}>
+          {formats.map(format => <option key={format} value={format}>{FORMAT_LABELS[format]}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        Size
+        <select value={settings.size} onChange={e => update({ size: Number(e.target.value) })} disabled={disabled} className={selectClass}>
+          {EXPORT_SIZES.map(size => <option key={size} value={size}>{size}×{size}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-1" title={isVideo ? 'Lowers the bitrate to fit.' : 'Lowers colours, then size, until the GIF fits.'}>
+        Max file size
+        <select
+          value={settings.targetSizeKb ?? ''}
+          onChange={e => update({ targetSizeKb: e.target.value ? Number(e.target.value) : null })}
+          disabled={disabled}
+          className={selectClass}
+        >
+          <option value="">No limit</option>
+          {SIZE_TARGETS_KB.map(kb => <option key={kb} value={kb}>{formatKb(kb)}</option>)}
+        </select>
+      </label>
+      {!isVideo && (
+        <>
+          <label className="flex items-center gap-1">
+            Colours
+            <select value={settings.gifColors} onChange={e => update({ gifColors: Number(e.target.value) })} disabled={disabled} className={selectClass}>
+              {GIF_COLORS.map(colors => <option key={colors} value={colors}>{colors}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1" title="A palette per frame keeps colours truer when frames differ a lot, at the cost of a bigger file.">
+            Palette
+            <select value={settings.gifPalette} onChange={e => update({ gifPalette: e.target.value as GifPaletteMode })} disabled={disabled} className={selectClass}>
+              {GIF_PALETTES.map(palette => <option key={palette.id} value={palette.id}>{palette.label}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={settings.dither} onChange={e => update({ dither: e.target.checked })} disabled={disabled} className="accent-gray-600" />
+            Dither
+          </label>
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={settings.transparent} onChange={e => update({ transparent: e.target.checked })} disabled={disabled} className="accent-gray-600" />
+            Transparency
+          </label>
+        </>
+      )}
+      {isVideo && (
+        <>
+          <label className="flex items-center gap-1">
+            Loops
+            <select value={settings.loopCount} onChange={e => update({ loopCount: Number(e.target.value) })} disabled={disabled} className={selectClass}>
+              {Array.from({ length: MAX_LOOP_COUNT }, (_, i) => <option key={i} value={i + 1}>{i + 1}×</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            Quality
+            <select value={settings.bitrate} onChange={e => update({ bitrate: Number(e.target.value) })} disabled={disabled} className={selectClass}>
+              {VIDEO_BITRATES.map(bitrate => <option key={bitrate.value} value={bitrate.value}>{bitrate.label}</option>)}
+            </select>
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportOptions;
@@ -0,0 +1,320 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Frame } from '../types';
+
+interface FrameBoundaryEditorProps {
+  image: HTMLImageElement;
+  frames: Frame[];
+  /** Called while dragging so the animation can re-slice live. */
+  onPreview: (frames: Frame[]) => void;
+  /** Called once an edit is finished and should be kept. */
+  onCommit: (frames: Frame[]) => void;
+  onReset: () => void;
+  /** Called when the user selects a frame, or clears the selection with `null`. */
+  onSelectionChange?: (index: number | null) => void;
+}
+
+type Handle = 'move' | 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+interface DragState {
+  index: number;
+  handle: Handle;
+  startX: number;
+  startY: number;
+  original: Frame[];
+}
+
+const HANDLE_SIZE = 10; // screen pixels
+const SNAP_STEP = 8; // sheet pixels
+const MIN_FRAME_SIZE = 16; // sheet pixels
+
+const FRAME_COLOR = '#78716c'; // stone-500
+const SELECTED_COLOR = '#f59e0b'; // amber-500
+
+const HANDLE_CURSORS: Record<Handle, string> = {
+  move: 'move', n: 'ns-resize', s: 'ns-resize', e: 'ew-resize', w: 'ew-resize',
+  ne: 'nesw-resize', sw: 'nesw-resize', nw: 'nwse-resize', se: 'nwse-resize',
+};
+
+const snap = (value: number, enabled: boolean) => enabled ? Math.round(value / SNAP_STEP) * SNAP_STEP : Math.round(value);
+
+/** Applies a drag delta to one frame for the given handle, keeping it inside the sheet. */
+const applyDrag = (frame: Frame, handle: Handle, dx: number, dy: number, sheetWidth: number, sheetHeight: number, snapToGrid: boolean): Frame => {
+  let left = frame.x;
+  let top = frame.y;
+  let right = frame.x + frame.width;
+  let bottom = frame.y + frame.height;
+
+  if (handle === 'move') {
+    const x = Math.min(sheetWidth - frame.width, Math.max(0, snap(frame.x + dx, snapToGrid)));
+    const y = Math.min(sheetHeight - frame.height, Math.max(0, snap(frame.y + dy, snapToGrid)));
+    return { ...frame, x, y };
+  }
+  if (handle.includes('w')) left = Math.min(right - MIN_FRAME_SIZE, Math.max(0, snap(left + dx, snapToGrid)));
+  if (handle.includes('e')) right = Math.max(left + MIN_FRAME_SIZE, Math.min(sheetWidth, snap(right + dx, snapToGrid)));
+  if (handle.includes('n')) top = Math.min(bottom - MIN_FRAME_SIZE, Math.max(0, snap(top + dy, snapToGrid)));
+  if (handle.includes('s')) bottom = Math.max(top + MIN_FRAME_SIZE, Math.min(sheetHeight, snap(bottom + dy, snapToGrid)));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+/**
+ * Draws the frame rectangles over the sprite sheet and lets the user move and
+ * resize them with drag handles or the arrow keys.
+ */
+const FrameBoundaryEditor: React.FC<FrameBoundaryEditorProps> = ({ image, frames, onPreview, onCommit, onReset, onSelectionChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [draftFrames, setDraftFrames] = useState<Frame[]>(frames);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [snapToGrid, setSnapToGrid] = useState(true);
+  const [applyToAll, setApplyToAll] = useState(false);
+  const [cursor, setCursor] = useState('default');
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    if (!dragRef.current) {
+      setDraftFrames(frames);
+    }
+  }, [frames]);
+
+  useEffect(() => {
+    onSelectionChange?.(selectedIndex);
+  }, [selectedIndex, onSelectionChange]);
+
+  const getImageDisplayDimensions = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return { x: 0, y: 0, width: 0, height: 0, scale: 1 };
+    }
+    const containerRect = canvas.getBoundingClientRect();
+    const imgRatio = image.naturalWidth / image.naturalHeight;
+    const containerRatio = containerRect.width / containerRect.height;
+    let finalWidth, finalHeight, offsetX, offsetY;
+
+    if (imgRatio > containerRatio) {
+      finalWidth = containerRect.width;
+      finalHeight = finalWidth / imgRatio;
+      offsetX = 0;
+      offsetY = (containerRect.height - finalHeight) / 2;
+    } else {
+      finalHeight = containerRect.height;
+      finalWidth = finalHeight * imgRatio;
+      offsetY = 0;
+      offsetX = (containerRect.width - finalWidth) / 2;
+    }
+
+    return {
+      width: finalWidth,
+      height: finalHeight,
+      x: offsetX,
+      y: offsetY,
+      scale: finalWidth / image.naturalWidth,
+    };
+  }, [image]);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = rect.width;
+    canvas.height = rect.height;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const { scale, x: offsetX, y: offsetY } = getImageDisplayDimensions();
+
+    draftFrames.forEach((frame, index) => {
+      const isSelected = index === selectedIndex || (applyToAll && selectedIndex !== null);
+      const rectX = frame.x * scale + offsetX;
+      const rectY = frame.y * scale + offsetY;
+      const rectW = frame.width * scale;
+      const rectH = frame.height * scale;
+
+      ctx.strokeStyle = isSelected ? SELECTED_COLOR : FRAME_COLOR;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(rectX, rectY, rectW, rectH);
+
+      ctx.fillStyle = isSelected ? SELECTED_COLOR : FRAME_COLOR;
+      ctx.font = 'bold 12px sans-serif';
+      ctx.fillText(String(index + 1), rectX + 4, rectY + 14);
+
+      if (index === selectedIndex) {
+        const half = HANDLE_SIZE / 2;
+        [[0, 0], [0.5, 0], [1, 0], [0, 0.5], [1, 0.5], [0, 1], [0.5, 1], [1, 1]].forEach(([fx, fy]) => {
+          ctx.fillStyle = '#ffffff';
+          ctx.fillRect(rectX + rectW * fx - half, rectY + rectH * fy - half, HANDLE_SIZE, HANDLE_SIZE);
+          ctx.strokeStyle = SELECTED_COLOR;
+          ctx.strokeRect(rectX + rectW * fx - half, rectY + rectH * fy - half, HANDLE_SIZE, HANDLE_SIZE);
+        });
+      }
+    });
+  }, [draftFrames, selectedIndex, applyToAll, getImageDisplayDimensions]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const resizeObserver = new ResizeObserver(draw);
+    resizeObserver.observe(canvas);
+    draw();
+    return () => resizeObserver.disconnect();
+  }, [draw]);
+
+  const hitTest = (clientX: number, clientY: number): { index: number; handle: Handle } | null => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+    const bounds = canvas.getBoundingClientRect();
+    const px = clientX - bounds.left;
+    const py = clientY - bounds.top;
+    const { scale, x: offsetX, y: offsetY } = getImageDisplayDimensions();
+    const tolerance = HANDLE_SIZE;
+
+    // Check the selected frame first so its handles win over overlapping neighbours.
+    const order = draftFrames.map((_, i) => i);
+    if (selectedIndex !== null) {
+      order.splice(order.indexOf(selectedIndex), 1);
+      order.unshift(selectedIndex);
+    }
+
+    for (const index of order) {
+      const frame = draftFrames[index];
+      const left = frame.x * scale + offsetX;
+      const top = frame.y * scale + offsetY;
+      const right = left + frame.width * scale;
+      const bottom = top + frame.height * scale;
+      if (px < left - tolerance || px > right + tolerance || py < top - tolerance || py > bottom + tolerance) {
+        continue;
+      }
+      if (index === selectedIndex) {
+        const nearN = Math.abs(py - top) <= tolerance;
+        const nearS = Math.abs(py - bottom) <= tolerance;
+        const nearW = Math.abs(px - left) <= tolerance;
+        const nearE = Math.abs(px - right) <= tolerance;
+        const vertical = nearN ? 'n' : nearS ? 's' : '';
+        const horizontal = nearW ? 'w' : nearE ? 'e' : '';
+        if (vertical || horizontal) {
+          return { index, handle: (vertical + horizontal) as Handle };
+        }
+      }
+      if (px >= left && px <= right && py >= top && py <= bottom) {
+        return { index, handle: 'move' };
+      }
+    }
+    return null;
+  };
+
+  const updateFrames = (original: Frame[], index: number, handle: Handle, dx: number, dy: number): Frame[] => {
+    const { naturalWidth, naturalHeight } = image;
+    if (!applyToAll) {
+      return original.map((frame, i) => i === index ? applyDrag(frame, handle, dx, dy, naturalWidth, naturalHeight, snapToGrid) : frame);
+    }
+    // Work out the change on the dragged frame, then shift every cell by the same amount.
+    const target = applyDrag(original[index], handle, dx, dy, naturalWidth, naturalHeight, snapToGrid);
+    const source = original[index];
+    const deltaX = target.x - source.x;
+    const deltaY = target.y - source.y;
+    const deltaW = target.width - source.width;
+    const deltaH = target.height - source.height;
+    return original.map(frame => {
+      const width = Math.max(MIN_FRAME_SIZE, Math.min(naturalWidth, frame.width + deltaW));
+      const height = Math.max(MIN_FRAME_SIZE, Math.min(naturalHeight, frame.height + deltaH));
+      return {
+        x: Math.min(naturalWidth - width, Math.max(0, frame.x + deltaX)),
+        y: Math.min(naturalHeight - height, Math.max(0, frame.y + deltaY)),
+        width,
+        height,
+      };
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const hit = hitTest(e.clientX, e.clientY);
+    if (!hit) {
+      setSelectedIndex(null);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setSelectedIndex(hit.index);
+    dragRef.current = { ...hit, startX: e.clientX, startY: e.clientY, original: draftFrames };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) {
+      const hit = hitTest(e.clientX, e.clientY);
+      setCursor(hit ? HANDLE_CURSORS[hit.handle] : 'default');
+      return;
+    }
+    const { scale } = getImageDisplayDimensions();
+    const dx = (e.clientX - drag.startX) / scale;
+    const dy = (e.clientY - drag.startY) / scale;
+    const next = updateFrames(drag.original, drag.index, drag.handle, dx, dy);
+    setDraftFrames(next);
+    onPreview(next);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    dragRef.current = null;
+    onCommit(draftFrames);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (selectedIndex === null) return;
+    const step = e.shiftKey ? 10 : 1;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, -step], ArrowDown: [0, step],
+    };
+    const move = moves[e.key];
+    if (!move) return;
+    e.preventDefault();
+    // Keyboard nudges are pixel-precise, so they skip snapping.
+    const { naturalWidth, naturalHeight } = image;
+    const nudge = (frame: Frame) => applyDrag(frame, 'move', move[0], move[1], naturalWidth, naturalHeight, false);
+    const next = draftFrames.map((frame, i) => applyToAll || i === selectedIndex ? nudge(frame) : frame);
+    setDraftFrames(next);
+    onCommit(next);
+  };
+
+  const toggleClass = (active: boolean) =>
+    `px-2 py-1 rounded-md text-xs font-bold border transition-colors ${active ? 'bg-white text-gray-900 border-white' : 'bg-transparent text-gray-200 border-gray-400 hover:border-white'}`;
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        tabIndex={0}
+        style={{ cursor }}
+        className="absolute inset-0 w-full h-full touch-none z-10"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+        aria-label="Frame boundaries. Select a frame, then drag its handles or use the arrow keys to adjust it."
+      />
+      <div className="absolute bottom-0 left-0 right-0 bg-black/60 p-3 text-center z-20 backdrop-blur-sm space-y-2">
+        <p className="text-sm text-gray-200 max-w-prose mx-auto">
+          This animation was created from a single AI-generated sprite sheet. Drag a frame to fix its boundaries.
+        </p>
+        <div className="flex items-center justify-center gap-2">
+          <button onClick={() => setSnapToGrid(v => !v)} className={toggleClass(snapToGrid)} aria-pressed={snapToGrid}>
+            Snap to grid
+          </button>
+          <button onClick={() => setApplyToAll(v => !v)} className={toggleClass(applyToAll)} aria-pressed={applyToAll}>
+            Apply to all cells
+          </button>
+          <button onClick={onReset} className={toggleClass(false)}>
+            Auto-detect
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default FrameBoundaryEditor;
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { LoopMode } from '../types';
+import { LOOP_MODES, duplicateFrame, identityFrameOrder, moveFrame, removeFrame } from '../services/frameSequence';
+import { CopyIcon, RotateCcwIcon, TrashIcon } from './icons';
+
+interface FrameSequenceEditorProps {
+  /** Sliced frames, indexed by their position in the sprite sheet. */
+  frames: HTMLImageElement[];
+  frameOrder: number[];
+  loopMode: LoopMode;
+  onChange: (frameOrder: number[], loopMode: LoopMode) => void;
+}
+
+/**
+ * Filmstrip of the playback order. Frames can be dragged to reorder them,
+ * duplicated or removed; the sprite sheet itself is never touched.
+ */
+const FrameSequenceEditor: React.FC<FrameSequenceEditorProps> = ({ frames, frameOrder, loopMode, onChange }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const isDefaultOrder = frameOrder.length === frames.length && frameOrder.every((frame, i) => frame === i);
+
+  const handleDrop = (position: number) => {
+    if (dragIndex !== null && dragIndex !== position) {
+      onChange(moveFrame(frameOrder, dragIndex, position), loopMode);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="w-full bg-white border-2 border-gray-300 rounded-xl p-3 mb-4 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden" role="radiogroup" aria-label="Loop mode">
+          {LOOP_MODES.map(mode => (
+            <button
+              key={mode.id}
+              role="radio"
+              aria-checked={loopMode === mode.id}
+              onClick={() => onChange(frameOrder, mode.id)}
+              className={`px-3 py-1 text-xs font-semibold transition-colors ${loopMode === mode.id ? 'bg-gray-700 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onChange([...frameOrder].reverse(), loopMode)}
+            className="px-3 py-1 text-xs font-semibold rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100"
+          >
+            Reverse
+          </button>
+          <button
+            onClick={() => onChange(identityFrameOrder(frames.length), loopMode)}
+            disabled={isDefaultOrder}
+            className="flex items-center gap-1 px-3 py-1 text-xs font-semibold rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Restore the original frame order"
+          >
+            <RotateCcwIcon className="w-3 h-3" /> Reset
+          </button>
+        </div>
+      </div>
+      <ol className="flex gap-2 overflow-x-auto pb-1" aria-label="Frame order">
+        {frameOrder.map((frameIndex, position) => (
+          <li
+            key={`${position}-${frameIndex}`}
+            draggable
+            onDragStart={e => {
+              setDragIndex(position);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onDragOver={e => {
+              e.preventDefault();
+              setDropIndex(position);
+            }}
+            onDragLeave={() => setDropIndex(current => current === position ? null : current)}
+            onDrop={e => {
+              e.preventDefault();
+              handleDrop(position);
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            className={`relative flex-shrink-0 w-16 rounded-lg border-2 bg-gray-100 cursor-grab active:cursor-grabbing transition-opacity
+              ${dropIndex === position && dragIndex !== position ? 'border-amber-500' : 'border-gray-300'}
+              ${dragIndex === position ? 'opacity-40' : ''}`}
+          >
+            {frames[frameIndex] && (
+              <img src={frames[frameIndex].src} alt={`Frame ${frameIndex + 1}`} className="w-full aspect-square object-cover rounded-t-md pointer-events-none" />
+            )}
+            <div className="flex items-center justify-between px-1 py-0.5">
+              <span className="text-[10px] font-semibold text-gray-600">#{frameIndex + 1}</span>
+              <div className="flex items-center gap-0.5">
+                <button
+                  onClick={() => onChange(duplicateFrame(frameOrder, position), loopMode)}
+                  className="p-0.5 text-gray-500 hover:text-gray-800"
+                  aria-label={`Duplicate frame ${frameIndex + 1}`}
+                >
+                  <CopyIcon className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => onChange(removeFrame(frameOrder, position), loopMode)}
+                  disabled={frameOrder.length <= 1}
+                  className="p-0.5 text-gray-500 hover:text-red-600 disabled:opacity-40 disabled:cursor-not-allowed"
+                  aria-label={`Remove frame ${frameIndex + 1} from the sequence`}
+                >
+                  <TrashIcon className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default FrameSequenceEditor;
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import {
+    GenerationError,
+    InvalidApiKeyError,
+    NetworkError,
+    NoImageReturnedError,
+    QuotaExceededError,
+    SafetyBlockedError,
+    ServerError,
+    SpriteSheetValidationError,
+} from '../services/generationErrors';
+import { RefreshCwIcon, XCircleIcon } from './icons';
+
+interface GenerationErrorPanelProps {
+    error: GenerationError;
+    onRetry: () => void;
+    onChangeApiKey: () => void;
+    onEditPrompt: () => void;
+    onDismiss: () => void;
+}
+
+interface RecoveryCopy {
+    emoji: string;
+    title: string;
+    detail: string;
+    tone: string;
+}
+
+const BLOCK_REASON_LABELS: Record<string, string> = {
+    SAFETY: 'safety policy',
+    IMAGE_SAFETY: 'image safety policy',
+    PROHIBITED_CONTENT: 'prohibited content',
+    BLOCKLIST: 'blocked terms',
+    SPII: 'sensitive personal information',
+    RECITATION: 'recitation of existing content',
+    OTHER: 'an unspecified policy',
+};
+
+const describeError = (error: GenerationError): RecoveryCopy => {
+    if (error instanceof InvalidApiKeyError) {
+        return {
+            emoji: '🔑',
+            title: 'Your API key was rejected',
+            detail: 'The key may be mistyped, revoked, or missing access to the image model. Enter a new key to continue.',
+            tone: 'bg-amber-100 border-amber-300 text-amber-900',
+        };
+    }
+    if (error instanceof QuotaExceededError) {
+        return {
+            emoji: '⏳',
+            title: 'Slow down, degen',
+            detail: "You've hit the quota or rate limit for this key. Wait a minute before trying again, or check your plan in Google AI Studio.",
+            tone: 'bg-amber-100 border-amber-300 text-amber-900',
+        };
+    }
+    if (error instanceof SafetyBlockedError) {
+        const reason = error.promptFeedback?.blockReasonMessage
+            ?? BLOCK_REASON_LABELS[error.blockReason]
+            ?? error.blockReason;
+        return {
+            emoji: '🙈',
+            title: 'Blocked by the safety filters',
+            detail: `The model refused this one (${reason}). Try rewording the prompt or using a different photo.`,
+            tone: 'bg-purple-100 border-purple-300 text-purple-900',
+        };
+    }
+    if (error instanceof NoImageReturnedError) {
+        return {
+            emoji: '🖼️',
+            title: 'No sprite sheet came back',
+            detail: error.responseText
+                ? `The model replied with text instead: "${error.responseText}"`
+                : 'The model finished without drawing anything. This is usually a fluke, so try again.',
+            tone: 'bg-stone-100 border-stone-300 text-stone-900',
+        };
+    }
+    if (error instanceof SpriteSheetValidationError) {
+        return {
+            emoji: '🧩',
+            title: 'The sprite sheet came out broken',
+            detail: `Even after a few retries the model kept drawing unusable sheets. ${error.issues.map(issue => issue.message).join(' ')}`,
+            tone: 'bg-stone-100 border-stone-300 text-stone-900',
+        };
+    }
+    if (error instanceof ServerError) {
+        return {
+            emoji: '🔥',
+            title: 'The model service is having a moment',
+            detail: `Google's servers returned an error (${error.status}) several times in a row. Give it a minute and try again.`,
+            tone: 'bg-sky-100 border-sky-300 text-sky-900',
+        };
+    }
+    if (error instanceof NetworkError) {
+        return {
+            emoji: '📡',
+            title: error.isTimeout ? 'The model took too long' : "Can't reach the model",
+            detail: error.isTimeout
+                ? 'The request timed out. The service may be busy, so give it another go.'
+                : 'Check your internet connection and try again.',
+            tone: 'bg-sky-100 border-sky-300 text-sky-900',
+        };
+    }
+    return {
+        emoji: '😵',
+        title: 'Error!',
+        detail: error.message,
+        tone: 'bg-red-100 border-red-300 text-red-800',
+    };
+};
+
+const GenerationErrorPanel: React.FC<GenerationErrorPanelProps> = ({ error, onRetry, onChangeApiKey, onEditPrompt, onDismiss }) => {
+    const { emoji, title, detail, tone } = describeError(error);
+    const buttonClass = 'bg-white/80 hover:bg-white border border-black/10 font-bold py-1.5 px-3 rounded-lg text-sm transition-colors flex items-center gap-1.5';
+
+    return (
+        <div className={`w-full border-2 px-4 py-3 rounded-lg relative animate-shake ${tone}`} role="alert">
+            <div className="flex items-start justify-between gap-3">
+                <div className="flex items-start gap-3">
+                    <span className="text-3xl leading-none" aria-hidden="true">{emoji}</span>
+                    <div>
+                        <strong className="font-bold block">{title}</strong>
+                        <span className="text-sm">{detail}</span>
+                    </div>
+                </div>
+                <button onClick={onDismiss} className="p-1 -mr-2 flex-shrink-0" aria-label="Close error message">
+                    <XCircleIcon className="w-6 h-6" />
+                </button>
+            </div>
+            <div className="flex flex-wrap gap-2 mt-3 pl-10">
+                {error instanceof InvalidApiKeyError ? (
+                    <button onClick={onChangeApiKey} className={buttonClass}>Update API key</button>
+                ) : (
+                    <button onClick={onRetry} className={buttonClass}>
+                        <RefreshCwIcon className="w-4 h-4" /> Try again
+                    </button>
+                )}
+                {error instanceof SafetyBlockedError && (
+                    <button onClick={onEditPrompt} className={buttonClass}>Edit prompt</button>
+                )}
+                {error instanceof QuotaExceededError && (
+                    <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className={buttonClass}>
+                        Open Google AI Studio
+                    </a>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default GenerationErrorPanel;
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { GridLayout } from '../types';
+import { IMPORT_ACCEPT, ImportedAnimation, SpriteSheetImportOptions, importAnimation, importKindOf } from '../services/animationImport';
+import { UploadIcon } from './icons';
+
+interface ImportAnimationPanelProps {
+  /** Called with the decoded animation and the file name without its extension. */
+  onImported: (result: ImportedAnimation, name: string) => void;
+}
+
+const GRID_SIZES = Array.from({ length: 12 }, (_, i) => i + 1);
+const FRAME_DURATIONS = [50, 80, 100, 120, 150, 200, 300, 500];
+
+const selectClass = 'bg-gray-100 text-gray-800 border border-gray-300 rounded-md px-1 py-0.5 text-sm';
+
+const baseNameOf = (file: File) => file.name.replace(/\.[^.]+$/, '') || 'Imported animation';
+
+/**
+ * Imports an existing GIF, video or sprite sheet instead of generating one.
+ * GIFs and videos open straight away; sprite sheets first ask for their grid.
+ */
+const ImportAnimationPanel: React.FC<ImportAnimationPanelProps> = ({ onImported }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [sheetFile, setSheetFile] = useState<File | null>(null);
+  const [sheetPreview, setSheetPreview] = useState<string | null>(null);
+  const [grid, setGrid] = useState<GridLayout>({ columns: 4, rows: 1 });
+  const [frameCount, setFrameCount] = useState(4);
+  const [frameDuration, setFrameDuration] = useState(100);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sheetFile) {
+      setSheetPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(sheetFile);
+    setSheetPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [sheetFile]);
+
+  const runImport = async (file: File, spriteSheet?: SpriteSheetImportOptions) => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      const result = await importAnimation(file, spriteSheet);
+      setSheetFile(null);
+      onImported(result, baseNameOf(file));
+    } catch (e) {
+      console.error("Import failed:", e);
+      setError(e instanceof Error ? e.message : "Couldn't import that file.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const kind = importKindOf(file);
+    if (kind === 'sprite-sheet') {
+      setError(null);
+      setSheetFile(file);
+    } else if (kind) {
+      runImport(file);
+    } else {
+      setError('Choose a GIF, a WebM or MP4 video, or a sprite sheet image.');
+    }
+  };
+
+  const updateGrid = (patch: Partial<GridLayout>) => {
+    const next = { ...grid, ...patch };
+    setGrid(next);
+    setFrameCount(next.columns * next.rows);
+  };
+
+  return (
+    <div className="w-full text-center">
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isImporting}
+        className="inline-flex items-center gap-2 text-lg text-gray-600 underline hover:text-gray-800 disabled:opacity-50"
+      >
+        <UploadIcon className="w-4 h-4" /> {isImporting ? 'Decoding...' : 'Import a GIF, video or sprite sheet'}
+      </button>
+      <p className="text-sm text-gray-500">Decoded on your device; nothing is sent to the model.</p>
+      <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept={IMPORT_ACCEPT} />
+
+      {sheetFile && sheetPreview && (
+        <div className="mt-3 bg-white border-2 border-gray-300 rounded-xl p-3 text-left">
+          <p className="text-sm text-gray-700 mb-2">How is <span className="font-bold">{sheetFile.name}</span> laid out?</p>
+          <div className="relative w-full max-w-xs mx-auto mb-3">
+            <img src={sheetPreview} alt="Sprite sheet to import" className="w-full h-auto block" />
+            <div
+              className="absolute inset-0 grid pointer-events-none"
+              style={{ gridTemplateColumns: `repeat(${grid.columns}, 1fr)`, gridTemplateRows: `repeat(${grid.rows}, 1fr)` }}
+              aria-hidden="true"
+            >
+              {Array.from({ length: grid.columns * grid.rows }, (_, index) => (
+                <div key={index} className={`border border-red-500/70 ${index >= frameCount ? 'bg-gray-900/40' : ''}`} />
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-gray-600">
+            <label className="flex items-center gap-1">
+              Columns
+              <select value={grid.columns} onChange={e => updateGrid({ columns: Number(e.target.value) })} className={selectClass}>
+                {GRID_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              Rows
+              <select value={grid.rows} onChange={e => updateGrid({ rows: Number(e.target.value) })} className={selectClass}>
+                {GRID_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1" title="For sheets whose last row isn't full.">
+              Frames
+              <select value={frameCount} onChange={e => setFrameCount(Number(e.target.value))} className={selectClass}>
+                {Array.from({ length: grid.columns * grid.rows }, (_, i) => i + 1).map(count => <option key={count} value={count}>{count}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              Frame time
+              <select value={frameDuration} onChange={e => setFrameDuration(Number(e.target.value))} className={selectClass}>
+                {FRAME_DURATIONS.map(ms => <option key={ms} value={ms}>{ms}ms</option>)}
+              </select>
+            </label>
+          </div>
+          <div className="flex justify-end gap-2 mt-3">
+            <button onClick={() => setSheetFile(null)} disabled={isImporting} className="px-3 py-1 rounded-lg text-gray-700 border border-gray-300 hover:bg-gray-100 disabled:opacity-50">
+              Cancel
+            </button>
+            <button
+              onClick={() => runImport(sheetFile, { grid, frameCount, frameDuration })}
+              disabled={isImporting}
+              className="px-3 py-1 rounded-lg bg-gray-800 text-white font-bold hover:bg-gray-700 disabled:opacity-50"
+            >
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600 mt-2" role="alert">{error}</p>}
+    </div>
+  );
+};
+
+export default ImportAnimationPanel;
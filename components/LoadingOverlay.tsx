@@ -3,15 +3,68 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import BananaLoader from './BananaLoader';
+import { CheckIcon } from './icons';
+import { GENERATION_STAGES, GenerationProgress, stageIndex } from '../services/generationProgress';
+
+interface LoadingOverlayProps {
+  progress: GenerationProgress | null;
+  startedAt: number;
+  onCancel: () => void;
+}
+
+const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ progress, startedAt, onCancel }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  const currentIndex = progress ? stageIndex(progress.stage) : -1;
 
-const LoadingOverlay: React.FC = () => {
   return (
-    <div className="fixed inset-0 bg-sky-100/80 backdrop-blur-sm flex items-center justify-center z-50">
+    <div className="fixed inset-0 bg-sky-100/80 backdrop-blur-sm flex flex-col items-center justify-center z-50 p-4 gap-6">
       <BananaLoader className="w-72 h-72" />
+      <div className="w-full max-w-sm bg-white/80 rounded-2xl shadow-lg border border-gray-200 p-4 space-y-3" aria-live="polite">
+        <div className="flex items-baseline justify-between">
+          <p className="text-2xl text-gray-800">{progress?.message ?? 'Getting ready...'}</p>
+          <span className="text-lg text-gray-500 tabular-nums" aria-label="Elapsed time">{formatElapsed(now - startedAt)}</span>
+        </div>
+        {progress && progress.attempt > 1 && (
+          <p className="text-sm text-gray-500">Attempt {progress.attempt} of {progress.maxAttempts}</p>
+        )}
+        <ol className="space-y-1">
+          {GENERATION_STAGES.map((stage, index) => {
+            const isDone = index < currentIndex;
+            const isActive = index === currentIndex;
+            return (
+              <li key={stage.id} className={`flex items-center gap-2 text-lg ${isActive ? 'text-gray-900 font-bold' : isDone ? 'text-gray-500' : 'text-gray-400'}`}>
+                <span className="w-5 h-5 flex items-center justify-center">
+                  {isDone ? <CheckIcon className="w-4 h-4" /> : isActive ? <span className="w-2.5 h-2.5 rounded-full bg-gray-800 animate-pulse" /> : <span className="w-2 h-2 rounded-full bg-gray-300" />}
+                </span>
+                {stage.label}
+              </li>
+            );
+          })}
+        </ol>
+        <button
+          onClick={onCancel}
+          className="w-full bg-white text-gray-700 font-bold py-2 rounded-lg border border-gray-300 hover:bg-gray-100 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
     </div>
   );
 };
 
-export default LoadingOverlay;
\ No newline at end of file
+export default LoadingOverlay;
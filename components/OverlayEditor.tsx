@@ -0,0 +1,204 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { Overlay, OverlaySource, WatermarkCorner } from '../types';
+import { SBF_PRESETS } from '../presets';
+import { MAX_OVERLAY_SCALE, MIN_OVERLAY_SCALE, STICKER_EMOJIS, WATERMARK_TEXT, createOverlay, overlayTransformAt, readStickerUpload, setOverlayTransformAt } from '../services/overlayRenderer';
+import { TrashIcon, UploadIcon } from './icons';
+
+interface OverlayEditorProps {
+  overlays: Overlay[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (overlays: Overlay[]) => void;
+  /** Number of frames in the current frame order. */
+  frameCount: number;
+  /** Frame-order position the player holds while an overlay is selected. */
+  editPosition: number;
+  onEditPositionChange: (position: number) => void;
+  watermark: WatermarkCorner | null;
+  onWatermarkChange: (corner: WatermarkCorner | null) => void;
+}
+
+const WATERMARK_OPTIONS: { id: WatermarkCorner; label: string }[] = [
+  { id: 'top-left', label: 'Top left' },
+  { id: 'top-right', label: 'Top right' },
+  { id: 'bottom-left', label: 'Bottom left' },
+  { id: 'bottom-right', label: 'Bottom right' },
+];
+
+const selectClass = 'bg-gray-100 text-gray-800 border border-gray-300 rounded-md px-1 py-0.5 text-xs';
+
+const OverlayThumb: React.FC<{ source: OverlaySource }> = ({ source }) =>
+  source.kind === 'emoji'
+    ? <span className="text-lg leading-none">{source.emoji}</span>
+    : <img src={source.src} alt="" className={`w-6 h-6 object-contain ${source.kind === 'preset' ? 'rounded-full object-cover' : ''}`} />;
+
+/** Sticker palette and placement controls. Dragging on the player canvas does the rough placement; this panel fine-tunes it. */
+const OverlayEditor: React.FC<OverlayEditorProps> = ({ overlays, selectedId, onSelect, onChange, frameCount, editPosition, onEditPositionChange, watermark, onWatermarkChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const selected = overlays.find(overlay => overlay.id === selectedId) ?? null;
+  const transform = selected ? overlayTransformAt(selected, editPosition) : null;
+
+  const replace = (updated: Overlay) => onChange(overlays.map(overlay => overlay.id === updated.id ? updated : overlay));
+
+  const handleAdd = (source: OverlaySource) => {
+    const overlay = createOverlay(source);
+    onChange([...overlays, overlay]);
+    onSelect(overlay.id);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setUploadError(null);
+    try {
+      handleAdd({ kind: 'upload', src: await readStickerUpload(file) });
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : 'Could not add that image.');
+    }
+  };
+
+  const handleMotionChange = (followsPath: boolean) => {
+    if (!selected || followsPath === !!selected.keyframes) return;
+    replace(followsPath
+      ? { ...selected, keyframes: [{ ...selected.transform, position: editPosition }] }
+      : { ...selected, transform: overlayTransformAt(selected, editPosition), keyframes: null });
+  };
+
+  const keyframeHere = selected?.keyframes?.find(keyframe => keyframe.position === editPosition);
+
+  return (
+    <div className="w-full bg-white border-2 border-gray-300 rounded-xl p-3 mb-4 shadow-sm space-y-3">
+      <div className="flex flex-wrap items-center gap-1" aria-label="Add a sticker">
+        {STICKER_EMOJIS.map(emoji => (
+          <button key={emoji} onClick={() => handleAdd({ kind: 'emoji', emoji })} className="w-8 h-8 text-lg rounded-lg hover:bg-gray-100" aria-label={`Add ${emoji} sticker`}>
+            {emoji}
+          </button>
+        ))}
+        {SBF_PRESETS.map((src, index) => (
+          <button key={src} onClick={() => handleAdd({ kind: 'preset', src })} className="w-8 h-8 p-0.5 rounded-full hover:ring-2 hover:ring-gray-300" aria-label={`Add face sticker ${index + 1}`}>
+            <img src={src} alt="" className="w-full h-full rounded-full object-cover" />
+          </button>
+        ))}
+        <button onClick={() => fileInputRef.current?.click()} className="w-8 h-8 flex items-center justify-center rounded-lg border border-dashed border-gray-400 text-gray-500 hover:bg-gray-100" aria-label="Upload a PNG sticker">
+          <UploadIcon className="w-4 h-4" />
+        </button>
+        <input type="file" ref={fileInputRef} onChange={handleUpload} className="hidden" accept="image/png,image/webp,image/gif" />
+      </div>
+      {uploadError && <p className="text-xs text-red-600">{uploadError}</p>}
+
+      {overlays.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {overlays.map((overlay, index) => (
+            <div key={overlay.id} className={`flex items-center gap-1 pl-1 pr-0.5 py-0.5 rounded-lg border ${overlay.id === selectedId ? 'border-blue-500 bg-blue-50' : 'border-gray-300'}`}>
+              <button onClick={() => onSelect(overlay.id === selectedId ? null : overlay.id)} className="flex items-center gap-1 text-xs text-gray-700" aria-pressed={overlay.id === selectedId} aria-label={`Edit sticker ${index + 1}`}>
+                <OverlayThumb source={overlay.source} />
+                {overlay.keyframes && <span className="text-[10px] text-blue-600">path</span>}
+              </button>
+              <button
+                onClick={() => {
+                  onChange(overlays.filter(o => o.id !== overlay.id));
+                  if (overlay.id === selectedId) onSelect(null);
+                }}
+                className="p-0.5 text-gray-400 hover:text-red-600"
+                aria-label={`Remove sticker ${index + 1}`}
+              >
+                <TrashIcon className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected && transform && (
+        <div className="space-y-2 text-xs text-gray-600 border-t border-gray-200 pt-2">
+          <p>Drag the sticker on the animation to move it, or drag its round handle to scale and rotate.</p>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            <label className="flex items-center gap-1">
+              Size
+              <input
+                type="range"
+                min={MIN_OVERLAY_SCALE}
+                max={MAX_OVERLAY_SCALE}
+                step={0.01}
+                value={transform.scale}
+                onChange={e => replace(setOverlayTransformAt(selected, editPosition, { ...transform, scale: Number(e.target.value) }))}
+                className="w-20 accent-gray-600"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              Rotation
+              <input
+                type="range"
+                min={-180}
+                max={180}
+                step={1}
+                value={Math.round(transform.rotation)}
+                onChange={e => replace(setOverlayTransformAt(selected, editPosition, { ...transform, rotation: Number(e.target.value) }))}
+                className="w-20 accent-gray-600"
+              />
+            </label>
+            <div className="flex rounded-md border border-gray-300 overflow-hidden" role="radiogroup" aria-label="Sticker motion">
+              {([[false, 'Static'], [true, 'Follow path']] as const).map(([followsPath, label]) => (
+                <button
+                  key={label}
+                  role="radio"
+                  aria-checked={!!selected.keyframes === followsPath}
+                  onClick={() => handleMotionChange(followsPath)}
+                  className={`px-2 py-0.5 font-semibold ${!!selected.keyframes === followsPath ? 'bg-gray-700 text-white' : 'bg-white hover:bg-gray-100'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {selected.keyframes && (
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="flex items-center gap-1">
+                Editing frame
+                <select value={editPosition} onChange={e => onEditPositionChange(Number(e.target.value))} className={selectClass}>
+                  {Array.from({ length: frameCount }, (_, i) => (
+                    <option key={i} value={i}>{i + 1}{selected.keyframes!.some(k => k.position === i) ? ' ◆' : ''}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={() => keyframeHere
+                  ? replace({ ...selected, keyframes: selected.keyframes!.filter(k => k !== keyframeHere) })
+                  : replace(setOverlayTransformAt(selected, editPosition, transform))}
+                disabled={!!keyframeHere && selected.keyframes.length === 1}
+                className="px-2 py-0.5 rounded-md border border-gray-300 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {keyframeHere ? 'Remove keyframe' : 'Add keyframe'}
+              </button>
+              <span className="text-gray-500">Moving the sticker on a frame pins it there; frames in between follow a straight line.</span>
+            </div>
+          )}
+          <button onClick={() => onSelect(null)} className="px-3 py-1 font-semibold rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100">
+            Done
+          </button>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-xs text-gray-600 border-t border-gray-200 pt-2">
+        Watermark ({WATERMARK_TEXT})
+        <select
+          value={watermark ?? ''}
+          onChange={e => onWatermarkChange((e.target.value || null) as WatermarkCorner | null)}
+          className={selectClass}
+        >
+          <option value="">Off</option>
+          {WATERMARK_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default OverlayEditor;
@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import {
+  BUILTIN_TEMPLATES,
+  PromptTemplate,
+  TemplatePackError,
+  createCustomTemplate,
+  exportTemplatePack,
+  fillTemplate,
+  parseTemplatePack,
+  templateVariables,
+} from '../services/promptTemplates';
+import { TrashIcon } from './icons';
+
+interface PromptTemplateBarProps {
+  customTemplates: PromptTemplate[];
+  onCustomTemplatesChange: (templates: PromptTemplate[]) => void;
+  /** The prompt currently in the text box. */
+  currentPrompt: string;
+  onUsePrompt: (prompt: string) => void;
+}
+
+const linkClass = 'text-sm text-gray-500 hover:text-gray-800 underline-offset-2 hover:underline';
+const inputClass = 'w-full bg-stone-50 text-gray-800 border border-gray-300 rounded-lg px-3 py-1.5 text-lg';
+
+/**
+ * Suggestion bar of built-in and custom prompt templates. Templates with
+ * `{variables}` open a small form; custom ones can be shared as JSON packs.
+ */
+const PromptTemplateBar: React.FC<PromptTemplateBarProps> = ({ customTemplates, onCustomTemplatesChange, currentPrompt, onUsePrompt }) => {
+  const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [isCreating, setIsCreating] = useState(false);
+  const [draftEmoji, setDraftEmoji] = useState('');
+  const [draftTemplate, setDraftTemplate] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const templates = [...BUILTIN_TEMPLATES, ...customTemplates];
+  const variables = fillingTemplate ? templateVariables(fillingTemplate.template) : [];
+
+  const handleTemplateClick = (template: PromptTemplate) => {
+    setIsCreating(false);
+    setMessage(null);
+    if (templateVariables(template.template).length === 0) {
+      setFillingTemplate(null);
+      // Clicking the active suggestion again clears it.
+      onUsePrompt(currentPrompt === template.template ? '' : template.template);
+      return;
+    }
+    setFillingTemplate(current => current?.id === template.id ? null : template);
+    setValues({});
+  };
+
+  const handleFillSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fillingTemplate) return;
+    onUsePrompt(fillTemplate(fillingTemplate.template, values));
+    setFillingTemplate(null);
+  };
+
+  const handleStartCreating = () => {
+    setFillingTemplate(null);
+    setMessage(null);
+    setDraftEmoji('');
+    setDraftTemplate(currentPrompt);
+    setIsCreating(current => !current);
+  };
+
+  const handleCreateSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draftTemplate.trim()) return;
+    onCustomTemplatesChange([...customTemplates, createCustomTemplate(draftEmoji, draftTemplate)]);
+    setIsCreating(false);
+  };
+
+  const handleDelete = (id: string) => {
+    onCustomTemplatesChange(customTemplates.filter(template => template.id !== id));
+    setFillingTemplate(current => current?.id === id ? null : current);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportTemplatePack(customTemplates)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'gmsbf-templates.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseTemplatePack(await file.text());
+      const known = new Set(templates.map(template => template.template));
+      const added = imported.filter(template => !known.has(template.template));
+      onCustomTemplatesChange([...customTemplates, ...added]);
+      setMessage({ text: `Imported ${added.length} template${added.length === 1 ? '' : 's'}${added.length < imported.length ? ` (${imported.length - added.length} already existed)` : ''}.`, isError: false });
+    } catch (error) {
+      console.error("Template import failed:", error);
+      setMessage({ text: error instanceof TemplatePackError ? error.message : 'Could not read the template file.', isError: true });
+    }
+  };
+
+  return (
+    <div className="w-full space-y-2">
+      <div className="w-full overflow-x-auto no-scrollbar" aria-label="Meme prompt templates">
+        <div className="w-max mx-auto flex items-center gap-x-2 sm:gap-x-3">
+          {templates.map(template => {
+            const isActive = currentPrompt === template.template || fillingTemplate?.id === template.id;
+            return (
+              <span key={template.id} className="relative">
+                <button
+                  onClick={() => handleTemplateClick(template)}
+                  className={`text-3xl p-2 rounded-full transition-all duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-offset-white focus-visible:ring-gray-400 ${isActive ? 'bg-gray-300 scale-110' : 'hover:bg-gray-100'}`}
+                  title={template.template}
+                  aria-label={`${isActive ? 'Deselect' : 'Select'} meme prompt: ${template.template}`}
+                >
+                  {template.emoji}
+                </button>
+                {/* Custom templates without variables never open the form, so they're deleted from here. */}
+                {template.isCustom && (
+                  <button
+                    onClick={() => handleDelete(template.id)}
+                    className="absolute -top-1 -right-1 w-5 h-5 flex items-center justify-center rounded-full bg-amber-500 text-white text-xs leading-none hover:bg-red-600"
+                    title="Delete template"
+                    aria-label={`Delete prompt template: ${template.template}`}
+                  >
+                    ×
+                  </button>
+                )}
+              </span>
+            );
+          })}
+          <button
+            onClick={handleStartCreating}
+            className={`text-2xl w-12 h-12 rounded-full border-2 border-dashed border-gray-300 text-gray-500 hover:border-gray-500 hover:text-gray-800 ${isCreating ? 'bg-gray-200' : ''}`}
+            aria-label="Create a prompt template"
+            title="Create a prompt template"
+          >
+            +
+          </button>
+        </div>
+      </div>
+
+      {fillingTemplate && (
+        <form onSubmit={handleFillSubmit} className="bg-white/80 border border-gray-200 rounded-lg p-3 space-y-2">
+          {variables.map(name => (
+            <label key={name} className="flex items-center gap-2">
+              <span className="w-28 text-lg text-gray-600 capitalize">{name}</span>
+              <input
+                type="text"
+                value={values[name] ?? ''}
+                onChange={e => setValues(current => ({ ...current, [name]: e.target.value }))}
+                className={inputClass}
+                autoFocus={name === variables[0]}
+              />
+            </label>
+          ))}
+          <p className="text-sm text-gray-500">{fillTemplate(fillingTemplate.template, values)}</p>
+          <div className="flex items-center justify-between gap-2">
+            {fillingTemplate.isCustom ? (
+              <button type="button" onClick={() => handleDelete(fillingTemplate.id)} className="flex items-center gap-1 text-sm text-red-600 hover:text-red-500">
+                <TrashIcon className="w-4 h-4" /> Delete template
+              </button>
+            ) : <span />}
+            <div className="flex items-center gap-2">
+              <button type="button" onClick={() => setFillingTemplate(null)} className={linkClass}>Cancel</button>
+              <button type="submit" className="bg-gray-800 text-white font-bold py-1.5 px-4 rounded-lg hover:bg-gray-700">Use prompt</button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {isCreating && (
+        <form onSubmit={handleCreateSubmit} className="bg-white/80 border border-gray-200 rounded-lg p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={draftEmoji}
+              onChange={e => setDraftEmoji(e.target.value)}
+              placeholder="😀"
+              maxLength={4}
+              className={`${inputClass} w-16 text-center`}
+              aria-label="Template emoji"
+            />
+            <input
+              type="text"
+              value={draftTemplate}
+              onChange={e => setDraftTemplate(e.target.value)}
+              placeholder="{subject} as a {profession} doing {action}"
+              className={inputClass}
+              aria-label="Template text"
+              autoFocus
+            />
+          </div>
+          <p className="text-sm text-gray-500">
+            Wrap words in braces to make them fill-in variables{templateVariables(draftTemplate).length > 0 && `: ${templateVariables(draftTemplate).join(', ')}`}.
+          </p>
+          <div className="flex justify-end items-center gap-2">
+            <button type="button" onClick={() => setIsCreating(false)} className={linkClass}>Cancel</button>
+            <button type="submit" disabled={!draftTemplate.trim()} className="bg-gray-800 text-white font-bold py-1.5 px-4 rounded-lg hover:bg-gray-700 disabled:opacity-50">Save template</button>
+          </div>
+        </form>
+      )}
+
+      <div className="flex items-center justify-center gap-4">
+        <button onClick={() => importInputRef.current?.click()} className={linkClass}>Import templates</button>
+        <button onClick={handleExport} disabled={customTemplates.length === 0} className={`${linkClass} disabled:opacity-40 disabled:no-underline`}>
+          Export my templates
+        </button>
+        <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+      {message && <p className={`text-sm text-center ${message.isError ? 'text-red-600' : 'text-gray-600'}`} role="status">{message.text}</p>}
+    </div>
+  );
+};
+
+export default PromptTemplateBar;
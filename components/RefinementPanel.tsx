@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { CreationVersion } from '../types';
+import { GenerationProgress } from '../services/generationProgress';
+import AnimatedThumbnail from './AnimatedThumbnail';
+import { SparklesIcon } from './icons';
+
+interface RefinementPanelProps {
+  versions: CreationVersion[];
+  activeVersionId: string | null;
+  onSelectVersion: (id: string) => void;
+  /** Starts one refinement turn on the active version; resolves to whether its result was kept. */
+  onRefine: (instruction: string) => Promise<boolean>;
+  onCancel: () => void;
+  isRefining: boolean;
+  progress: GenerationProgress | null;
+  error: string | null;
+}
+
+const versionLabel = (index: number) => index === 0 ? 'Original' : `v${index + 1}`;
+
+/**
+ * Follow-up instructions for the current animation, the versions they
+ * produced, and a side-by-side comparison of any two of them. The request
+ * itself belongs to the player, so it outlives this panel being hidden.
+ */
+const RefinementPanel: React.FC<RefinementPanelProps> = ({ versions, activeVersionId, onSelectVersion, onRefine, onCancel, isRefining, progress, error }) => {
+  const [instruction, setInstruction] = useState('');
+  const [compareVersionId, setCompareVersionId] = useState<string | null>(null);
+
+  const activeIndex = versions.findIndex(version => version.id === activeVersionId);
+  const activeVersion = versions[activeIndex];
+  const compareIndex = versions.findIndex(version => version.id === compareVersionId);
+  const compareVersion = compareIndex !== activeIndex ? versions[compareIndex] : undefined;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = instruction.trim();
+    if (!text || isRefining) return;
+    if (await onRefine(text)) setInstruction('');
+  };
+
+  return (
+    <div className="w-full bg-white border-2 border-gray-300 rounded-xl p-3 mb-4 shadow-sm">
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={instruction}
+          onChange={e => setInstruction(e.target.value)}
+          placeholder="Refine it: e.g. make him smile more"
+          disabled={isRefining}
+          className="flex-1 bg-gray-100 text-gray-800 border border-gray-300 rounded-lg px-3 py-2 text-sm disabled:opacity-60"
+          aria-label="Refinement instruction"
+        />
+        {isRefining ? (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-2 text-sm font-semibold rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!instruction.trim()}
+            className="flex items-center gap-1 px-3 py-2 text-sm font-bold rounded-lg bg-gray-800 text-white hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <SparklesIcon className="w-4 h-4" /> Refine
+          </button>
+        )}
+      </form>
+      {isRefining && <p className="text-xs text-gray-500 mt-2" aria-live="polite">{progress?.message ?? 'Starting...'}</p>}
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+
+      {versions.length > 1 && (
+        <>
+          <ol className="flex gap-2 overflow-x-auto mt-3 pb-1" aria-label="Versions">
+            {versions.map((version, index) => (
+              <li key={version.id} className="flex-shrink-0 w-20">
+                <button
+                  onClick={() => onSelectVersion(version.id)}
+                  disabled={isRefining}
+                  className={`block w-full rounded-lg border-2 overflow-hidden ${version.id === activeVersionId ? 'border-amber-500' : 'border-gray-300 hover:border-gray-500'}`}
+                  title={version.instruction ?? 'First generation'}
+                  aria-pressed={version.id === activeVersionId}
+                >
+                  <img
+                    src={`data:${version.assets.imageData.mimeType};base64,${version.assets.imageData.data}`}
+                    alt={version.instruction ?? 'First generation'}
+                    className="w-full aspect-square object-cover"
+                  />
+                </button>
+                <div className="flex items-center justify-between mt-0.5">
+                  <span className="text-[10px] font-semibold text-gray-600">{versionLabel(index)}</span>
+                  {version.id !== activeVersionId && (
+                    <button
+                      onClick={() => setCompareVersionId(current => current === version.id ? null : version.id)}
+                      className={`text-[10px] underline ${version.id === compareVersionId ? 'text-amber-600' : 'text-gray-500 hover:text-gray-800'}`}
+                    >
+                      {version.id === compareVersionId ? 'Hide' : 'Compare'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+          {compareVersion && activeVersion && (
+            <div className="grid grid-cols-2 gap-3 mt-3">
+              {[{ version: compareVersion, index: compareIndex }, { version: activeVersion, index: activeIndex }].map(({ version, index }) => (
+                <figure key={version.id}>
+                  <AnimatedThumbnail assets={version.assets} className="w-full aspect-square rounded-lg" label={`${versionLabel(index)} preview`} />
+                  <figcaption className="text-xs text-gray-600 mt-1 line-clamp-2">
+                    <span className="font-semibold">{versionLabel(index)}:</span> {version.instruction ?? 'First generation'}
+                  </figcaption>
+                </figure>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RefinementPanel;
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { AtlasFormat, SpriteSheetExportOptions } from '../services/spriteAtlas';
+import { DownloadIcon } from './icons';
+
+interface SpriteSheetExportPanelProps {
+  onExport: (options: SpriteSheetExportOptions) => Promise<void>;
+}
+
+const CELL_SIZES: { value: number | null; label: string }[] = [
+  { value: null, label: 'Original' },
+  { value: 32, label: '32px' },
+  { value: 64, label: '64px' },
+  { value: 128, label: '128px' },
+  { value: 256, label: '256px' },
+];
+const PADDINGS = [0, 1, 2, 4, 8];
+const ATLAS_FORMATS: { id: AtlasFormat; label: string }[] = [
+  { id: 'texturepacker-hash', label: 'TexturePacker (hash)' },
+  { id: 'aseprite', label: 'Aseprite' },
+];
+
+const selectClass = 'bg-gray-100 text-gray-800 border border-gray-300 rounded-md px-1 py-0.5 text-xs';
+
+/** Options for the game-ready sprite sheet zip: a re-packed PNG plus a JSON atlas. */
+const SpriteSheetExportPanel: React.FC<SpriteSheetExportPanelProps> = ({ onExport }) => {
+  const [options, setOptions] = useState<SpriteSheetExportOptions>({
+    cellSize: null,
+    padding: 2,
+    transparentBackground: false,
+    atlasFormat: 'texturepacker-hash',
+  });
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const update = (patch: Partial<SpriteSheetExportOptions>) => setOptions(current => ({ ...current, ...patch }));
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await onExport(options);
+    } catch (e) {
+      console.error("Sprite sheet export failed:", e);
+      setError(e instanceof Error ? e.message : 'Could not export the sprite sheet.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="w-full bg-white border-2 border-gray-300 rounded-xl p-3 mb-4 shadow-sm">
+      <p className="text-sm text-gray-700 mb-2">Game sprite sheet</p>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-600">
+        <label className="flex items-center gap-1">
+          Cells
+          <select value={options.cellSize ?? ''} onChange={e => update({ cellSize: e.target.value ? Number(e.target.value) : null })} className={selectClass}>
+            {CELL_SIZES.map(size => <option key={size.label} value={size.value ?? ''}>{size.label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Padding
+          <select value={options.padding} onChange={e => update({ padding: Number(e.target.value) })} className={selectClass}>
+            {PADDINGS.map(padding => <option key={padding} value={padding}>{padding}px</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Atlas
+          <select value={options.atlasFormat} onChange={e => update({ atlasFormat: e.target.value as AtlasFormat })} className={selectClass}>
+            {ATLAS_FORMATS.map(format => <option key={format.id} value={format.id}>{format.label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1" title="Clears the background colour touching each frame's edges.">
+          <input type="checkbox" checked={options.transparentBackground} onChange={e => update({ transparentBackground: e.target.checked })} className="accent-gray-600" />
+          Transparent background
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="flex items-center gap-1 px-3 py-1 font-semibold rounded-lg bg-green-500 text-white hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <DownloadIcon className="w-3 h-3" /> {isExporting ? 'Packing...' : 'Download zip'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default SpriteSheetExportPanel;
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { AnimationAssets } from '../services/geminiService';
+import AnimatedThumbnail from './AnimatedThumbnail';
+import { CheckIcon } from './icons';
+
+interface VariantPickerProps {
+  candidates: AnimationAssets[];
+  prompt: string;
+  /** Variants that failed to generate, so the user knows why there are fewer. */
+  failedCount: number;
+  onKeep: (kept: AnimationAssets[]) => void;
+  onDiscard: () => void;
+}
+
+/** Side-by-side animated previews of a multi-variant run; the user keeps any number of them. */
+const VariantPicker: React.FC<VariantPickerProps> = ({ candidates, prompt, failedCount, onKeep, onDiscard }) => {
+  const [selected, setSelected] = useState<Set<number>>(() => new Set());
+
+  const toggle = (index: number) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg p-4 sm:p-6 border border-gray-200">
+      <h2 className="text-4xl text-gray-800">Pick your favourites</h2>
+      <p className="text-gray-600 text-lg mb-1 line-clamp-2">"{prompt}"</p>
+      <p className="text-sm text-gray-500 mb-4">
+        Tap the ones to keep. Each one is saved as its own meme.
+        {failedCount > 0 && ` ${failedCount} variant${failedCount === 1 ? '' : 's'} failed to generate.`}
+      </p>
+      <div className={`grid gap-3 ${candidates.length > 2 ? 'grid-cols-2 sm:grid-cols-4' : 'grid-cols-2'}`}>
+        {candidates.map((assets, index) => {
+          const isSelected = selected.has(index);
+          return (
+            <button
+              key={index}
+              onClick={() => toggle(index)}
+              className={`relative rounded-xl overflow-hidden border-4 transition-all ${isSelected ? 'border-green-500 scale-[1.02]' : 'border-transparent hover:border-gray-300'}`}
+              aria-pressed={isSelected}
+              aria-label={`Variant ${index + 1}${isSelected ? ', kept' : ''}`}
+            >
+              <AnimatedThumbnail assets={assets} className="w-full aspect-square" label={assets.altText ?? `Variant ${index + 1}`} />
+              <span className="absolute top-2 left-2 bg-white/80 text-gray-800 text-sm font-bold px-2 rounded-full">{index + 1}</span>
+              {isSelected && (
+                <span className="absolute top-2 right-2 bg-green-500 text-white p-1 rounded-full">
+                  <CheckIcon className="w-4 h-4" />
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex flex-wrap justify-end gap-2 mt-4">
+        <button onClick={onDiscard} className="py-2 px-4 rounded-lg text-gray-700 hover:bg-gray-100 font-bold">
+          Discard all
+        </button>
+        <button onClick={() => onKeep(candidates)} className="py-2 px-4 rounded-lg border border-gray-300 text-gray-800 hover:bg-gray-100 font-bold">
+          Keep all
+        </button>
+        <button
+          onClick={() => onKeep(candidates.filter((_, index) => selected.has(index)))}
+          disabled={selected.size === 0}
+          className="py-2 px-4 rounded-lg bg-green-500 text-white hover:bg-green-600 font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Keep {selected.size || ''} selected
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VariantPicker;
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  /** Height of the area under each square tile, e.g. for a title. */
+  footerHeight?: number;
+  className?: string;
+}
+
+const GAP = 16;
+// Rows rendered above and below the visible ones, so fast scrolling doesn't flash empty space.
+const OVERSCAN_ROWS = 2;
+
+const columnsFor = (width: number) => width < 480 ? 2 : width < 720 ? 3 : 4;
+
+/**
+ * A scrolling grid of square tiles that only renders the rows in view, so
+ * collections of any size scroll smoothly.
+ */
+const VirtualGrid = <T,>({ items, getKey, renderItem, footerHeight = 0, className = '' }: VirtualGridProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [scrollTop, setScrollTop] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const measure = () => setViewport({ width: container.clientWidth, height: container.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const columns = columnsFor(viewport.width);
+  const tileWidth = Math.max(0, (viewport.width - GAP * (columns - 1)) / columns);
+  const rowHeight = tileWidth + footerHeight + GAP;
+  const rowCount = Math.ceil(items.length / columns);
+  const firstRow = rowHeight > 0 ? Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN_ROWS) : 0;
+  // Before the first measurement, render a screenful so there's something to measure against.
+  const lastRow = rowHeight > GAP
+    ? Math.min(rowCount - 1, Math.ceil((scrollTop + viewport.height) / rowHeight) + OVERSCAN_ROWS)
+    : Math.min(rowCount - 1, OVERSCAN_ROWS);
+  const visibleItems = items.slice(firstRow * columns, (lastRow + 1) * columns);
+
+  return (
+    <div ref={containerRef} onScroll={e => setScrollTop(e.currentTarget.scrollTop)} className={`overflow-y-auto ${className}`}>
+      <div className="relative" style={{ height: Math.max(0, rowCount * rowHeight - GAP) }}>
+        {visibleItems.map((item, offset) => {
+          const index = firstRow * columns + offset;
+          return (
+            <div
+              key={getKey(item)}
+              className="absolute"
+              style={{
+                top: Math.floor(index / columns) * rowHeight,
+                left: (index % columns) * (tileWidth + GAP),
+                width: tileWidth,
+                height: tileWidth + footerHeight,
+              }}
+            >
+              {renderItem(item)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualGrid;
@@ -0,0 +1,13 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** The bundled SBF photos, used as starting images, backgrounds and sticker faces. */
+export const SBF_PRESETS = [
+    '/assets/presets/sbf1.png',
+    '/assets/presets/sbf2.png',
+    '/assets/presets/sbf3.png',
+    '/assets/presets/sbf4.png',
+    '/assets/presets/sbf5.png',
+];
@@ -2,6 +2,10 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import { GridLayout } from './types';
+import { describeGrid, frameCountOf } from './services/frameLayout';
+import { ArtStyle } from './styles';
+import { describeMetadataSchema } from './services/animationMetadata';
 
 export const promptSuggestions = [
   { emoji: '🚲', prompt: 'SBF on a tiny bicycle wearing a giant helmet.' },
@@ -15,9 +19,11 @@ export const promptSuggestions = [
 export const buildCreativeInstruction = (
   storyPrompt: string, 
   originalImage: string | null, 
-  frameCount: number
+  grid: GridLayout,
+  style: ArtStyle
 ): string => {
-  const baseInstruction = `Create a short, ${frameCount}-frame animation in the style of a charcoal sketch animation. The movement should be smooth and believable, and the final frame should loop back smoothly to the first.`;
+  const frameCount = frameCountOf(grid);
+  const baseInstruction = `Create a short, ${frameCount}-frame animation ${style.instruction}. The movement should be smooth and believable, and the final frame should loop back smoothly to the first.`;
   const styleConsistencyInstruction = `It is crucial that all ${frameCount} frames are in the same, consistent artistic style.`;
   const identityLockInstruction = `Maintain the subject's core facial features and identity consistently across all frames. The person or subject should be clearly recognizable from one frame to the next. Avoid distorting the face or adding new features.`;
   
@@ -25,6 +31,7 @@ export const buildCreativeInstruction = (
 Based on the creative direction, determine the optimal frame duration for the animation.
 - For slow, story-like animations, choose a longer duration (e.g., 400-2000ms per frame).
 - For fast, dynamic animations, choose a shorter duration (e.g., 80-120ms per frame).
+- This art style usually reads best at around ${style.defaultFrameDuration}ms per frame.
 `;
 
   let creativeDirection = '';
@@ -50,10 +57,69 @@ ${frameDurationInstruction}
 
 REQUIRED RESPONSE FORMAT:
 Your response MUST contain two parts:
-1. A valid JSON object containing a single key: "frameDuration". The value must be a number representing the milliseconds per frame (between 80 and 2000, per instructions above). Do not wrap the JSON in markdown backticks.
-2. The ${frameCount}-frame sprite sheet image.
+1. The animation metadata as text. ${describeMetadataSchema(frameCount)}
+2. The ${frameCount}-frame sprite sheet image, laid out as a ${describeGrid(grid)}.
+`;
+};
 
-Example of the JSON part:
-{"frameDuration": 150}
+/**
+ * Asks for a single replacement cell. The model gets the whole sheet with the
+ * cell outlined, plus the frames either side of it, as context.
+ */
+export const buildFrameRedrawInstruction = (
+  storyPrompt: string,
+  frameIndex: number,
+  grid: GridLayout
+): string => {
+  const frameCount = frameCountOf(grid);
+  const row = Math.floor(frameIndex / grid.columns) + 1;
+  const column = (frameIndex % grid.columns) + 1;
+  return `
+PRIMARY GOAL: Redraw exactly one frame of an existing ${frameCount}-frame animation.
+The first image is the current sprite sheet, a ${describeGrid(grid)} read left to right, top to bottom. The frame to redraw is outlined in red: frame ${frameIndex + 1}, at row ${row}, column ${column}.
+The next images are the frames that come just before and just after it in the animation.
+The animation shows: "${storyPrompt}".
+
+REQUIREMENTS:
+- Return a single square image containing ONLY the replacement for frame ${frameIndex + 1}. Do not return the whole sprite sheet.
+- Match the art style, colours, line weight, background and framing of the other frames exactly.
+- Keep the subject's face and identity identical to the neighbouring frames and fix any distortions.
+- The pose should sit naturally between the previous and next frames so the animation stays smooth.
+- Do not draw the red outline, borders, or frame numbers.
+- DO NOT return any text or JSON. Only the image is required.`;
+};
+
+/**
+ * Follow-up turn for an existing animation. Earlier instructions are replayed
+ * so the model knows which changes have already been made and should be kept.
+ */
+export const buildRefinementInstruction = (
+  storyPrompt: string,
+  history: string[],
+  instruction: string,
+  grid: GridLayout,
+  hasReferenceImage: boolean
+): string => {
+  const frameCount = frameCountOf(grid);
+  const historyText = history.length > 0
+    ? `\nCHANGES ALREADY MADE (keep all of them):\n${history.map((turn, i) => `${i + 1}. ${turn}`).join('\n')}\n`
+    : '';
+  return `
+PRIMARY GOAL: Revise an existing ${frameCount}-frame animated sprite sheet.
+The first image is the current sprite sheet, a ${describeGrid(grid)} read left to right, top to bottom.${hasReferenceImage ? '\nThe second image is the original reference photo of the subject. Keep the subject recognizable as the person in it.' : ''}
+The animation shows: "${storyPrompt}".
+${historyText}
+NEW CHANGE REQUESTED:
+"${instruction}"
+
+REQUIREMENTS:
+- Apply the new change to every frame. Keep everything else (art style, colours, background, framing, motion and timing) as close to the current sheet as possible.
+- The output MUST be a single image with the same dimensions and the same ${describeGrid(grid)} layout as the current sheet, each cell square and the same size.
+- Do not add numbers to the frames.
+
+REQUIRED RESPONSE FORMAT:
+Your response MUST contain two parts:
+1. Updated animation metadata as text. ${describeMetadataSchema(frameCount)}
+2. The revised ${frameCount}-frame sprite sheet image.
 `;
-};
\ No newline at end of file
+};
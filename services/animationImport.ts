@@ -0,0 +1,238 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Frame, GridLayout, LoopMode } from '../types';
+import { AnimationAssets } from './geminiService';
+import { createUniformFrameLayout } from './frameLayout';
+import { decodeGif } from './gifDecoder';
+import { canvasToInlineImage } from './imageAnalysis';
+
+/**
+ * Turns existing animations into `AnimationAssets` entirely in the browser, so
+ * imported content plays, edits and exports like a generated sprite sheet.
+ * Nothing here talks to the model.
+ */
+
+export type ImportKind = 'gif' | 'video' | 'sprite-sheet';
+
+export interface SpriteSheetImportOptions {
+  grid: GridLayout;
+  /** Cells to use in reading order, for sheets whose last row isn't full. */
+  frameCount: number;
+  /** Milliseconds per frame; sprite sheets don't carry timing. */
+  frameDuration: number;
+}
+
+export interface ImportedAnimation {
+  assets: AnimationAssets;
+  /** What was dropped or merged to fit the import limits, worded for the user. */
+  notes: string[];
+}
+
+export const IMPORT_ACCEPT = 'image/gif,image/png,image/jpeg,image/webp,video/webm,video/mp4';
+
+// Frames are re-packed into one sheet that gets saved with the creation, so keep it modest.
+const MAX_IMPORT_FRAMES = 48;
+const MAX_CELL_SIZE = 256;
+// GIF frames are decoded at full size before thinning, which bounds memory use.
+const MAX_DECODED_GIF_FRAMES = 240;
+const VIDEO_FRAME_RATE = 12;
+const MAX_VIDEO_SECONDS = 4;
+
+export const importKindOf = (file: File): ImportKind | null => {
+  if (file.type === 'image/gif') return 'gif';
+  if (file.type.startsWith('video/')) return 'video';
+  if (file.type.startsWith('image/')) return 'sprite-sheet';
+  return null;
+};
+
+interface SheetBuilder {
+  canvas: HTMLCanvasElement;
+  frames: Frame[];
+  grid: GridLayout;
+  /** Draws a source (or the `crop` of it) letterboxed into cell `index`. */
+  draw: (index: number, source: CanvasImageSource, crop?: Frame) => void;
+}
+
+/**
+ * Lays `count` square cells out in a grid that holds exactly that many, so
+ * resetting the frame layout later finds the same cells. The player draws
+ * frames into a square, so non-square sources are letterboxed rather than stretched.
+ */
+const createSheetBuilder = (count: number, sourceWidth: number, sourceHeight: number, background: string | null): SheetBuilder => {
+  let columns = Math.ceil(Math.sqrt(count));
+  while (count % columns !== 0) columns++;
+  const rows = count / columns;
+  const cellSize = Math.min(MAX_CELL_SIZE, Math.max(sourceWidth, sourceHeight));
+  const scale = cellSize / Math.max(sourceWidth, sourceHeight);
+  const width = Math.round(sourceWidth * scale);
+  const height = Math.round(sourceHeight * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = columns * cellSize;
+  canvas.height = rows * cellSize;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a canvas for the imported frames.');
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+
+  const frames: Frame[] = Array.from({ length: count }, (_, index) => ({
+    x: (index % columns) * cellSize,
+    y: Math.floor(index / columns) * cellSize,
+    width: cellSize,
+    height: cellSize,
+  }));
+  const draw = (index: number, source: CanvasImageSource, crop?: Frame) => {
+    const x = frames[index].x + Math.floor((cellSize - width) / 2);
+    const y = frames[index].y + Math.floor((cellSize - height) / 2);
+    if (crop) {
+      ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, x, y, width, height);
+    } else {
+      ctx.drawImage(source, x, y, width, height);
+    }
+  };
+  return { canvas, frames, grid: { columns, rows }, draw };
+};
+
+/** Keeps at most `MAX_IMPORT_FRAMES` evenly spaced frames, folding the skipped frames' time into the kept ones. */
+const thinFrames = (durations: number[]): { indices: number[]; durations: number[] } => {
+  const step = Math.ceil(durations.length / MAX_IMPORT_FRAMES);
+  const indices: number[] = [];
+  const kept: number[] = [];
+  for (let i = 0; i < durations.length; i += step) {
+    indices.push(i);
+    kept.push(durations.slice(i, i + step).reduce((sum, duration) => sum + duration, 0));
+  }
+  return { indices, durations: kept };
+};
+
+const toAssets = (sheet: SheetBuilder, durations: number[], loopMode: LoopMode, mimeType: string, name: string): AnimationAssets => ({
+  imageData: canvasToInlineImage(sheet.canvas, mimeType),
+  frames: sheet.frames,
+  frameDuration: Math.round(durations.reduce((sum, duration) => sum + duration, 0) / durations.length),
+  frameDurations: durations,
+  grid: sheet.grid,
+  loopMode,
+  altText: `Animation imported from ${name}`,
+});
+
+const importGif = async (file: File): Promise<ImportedAnimation> => {
+  const gif = decodeGif(new Uint8Array(await file.arrayBuffer()), MAX_DECODED_GIF_FRAMES);
+  const notes: string[] = [];
+  if (gif.truncated) notes.push(`Only the first ${gif.frames.length} frames of the GIF were imported.`);
+  const { indices, durations } = thinFrames(gif.frames.map(frame => frame.delay));
+  if (indices.length < gif.frames.length) notes.push(`${gif.frames.length} frames were thinned to ${indices.length}.`);
+
+  const scratch = document.createElement('canvas');
+  scratch.width = gif.width;
+  scratch.height = gif.height;
+  const scratchCtx = scratch.getContext('2d');
+  if (!scratchCtx) throw new Error('Could not create a canvas for the imported frames.');
+  const sheet = createSheetBuilder(indices.length, gif.width, gif.height, null);
+  indices.forEach((frameIndex, cell) => {
+    scratchCtx.putImageData(new ImageData(gif.frames[frameIndex].data, gif.width, gif.height), 0, 0);
+    sheet.draw(cell, scratch);
+  });
+  // A GIF without a loop extension plays once; any repeat count is treated as looping.
+  const loopMode: LoopMode = gif.loopCount === null ? 'once' : 'loop';
+  return { assets: toAssets(sheet, durations, loopMode, 'image/png', file.name), notes };
+};
+
+const waitForEvent = (video: HTMLVideoElement, event: 'loadeddata' | 'seeked'): Promise<void> => new Promise((resolve, reject) => {
+  video.addEventListener(event, () => resolve(), { once: true });
+  video.addEventListener('error', () => reject(new Error("This browser can't play that video.")), { once: true });
+});
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  const seeked = waitForEvent(video, 'seeked');
+  video.currentTime = time;
+  return seeked;
+};
+
+/** Samples the video at a fixed frame rate by seeking a hidden video element and copying each frame. */
+const importVideo = async (file: File): Promise<ImportedAnimation> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  try {
+    const loaded = waitForEvent(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+    if (!Number.isFinite(video.duration)) {
+      // Recorded WebMs often leave the duration out; seeking past the end makes the browser work it out.
+      await seekTo(video, Number.MAX_SAFE_INTEGER);
+    }
+    if (!Number.isFinite(video.duration) || video.duration <= 0 || video.videoWidth === 0) {
+      throw new Error("Couldn't read the length of that video.");
+    }
+
+    const notes: string[] = [];
+    const clipSeconds = Math.min(video.duration, MAX_VIDEO_SECONDS);
+    if (video.duration > MAX_VIDEO_SECONDS) notes.push(`Only the first ${MAX_VIDEO_SECONDS} seconds of the video were imported.`);
+    const count = Math.max(1, Math.min(MAX_IMPORT_FRAMES, Math.round(clipSeconds * VIDEO_FRAME_RATE)));
+    const interval = clipSeconds / count;
+    // Videos have no alpha, so JPEG keeps the sheet far smaller than PNG.
+    const sheet = createSheetBuilder(count, video.videoWidth, video.videoHeight, '#000000');
+    for (let index = 0; index < count; index++) {
+      await seekTo(video, index * interval);
+      sheet.draw(index, video);
+    }
+    const durations = Array.from({ length: count }, () => Math.round(interval * 1000));
+    return { assets: toAssets(sheet, durations, 'loop', 'image/jpeg', file.name), notes };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+const loadImageFile = (file: File): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(file);
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Couldn't open that image."));
+    img.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+};
+
+/** Cuts a sheet into the user's grid with no inset, since other tools pack frames edge to edge. */
+const importSpriteSheet = async (file: File, options: SpriteSheetImportOptions): Promise<ImportedAnimation> => {
+  const img = await loadImageFile(file);
+  const cells = createUniformFrameLayout(img.naturalWidth, img.naturalHeight, options.grid, 0).slice(0, options.frameCount);
+  if (cells.length === 0 || cells[0].width <= 0 || cells[0].height <= 0) {
+    throw new Error('The grid has more cells than the image has pixels.');
+  }
+  const notes: string[] = [];
+  const { indices, durations } = thinFrames(cells.map(() => options.frameDuration));
+  if (indices.length < cells.length) notes.push(`${cells.length} frames were thinned to ${indices.length}.`);
+
+  const sheet = createSheetBuilder(indices.length, cells[0].width, cells[0].height, null);
+  indices.forEach((cellIndex, cell) => sheet.draw(cell, img, cells[cellIndex]));
+  return { assets: toAssets(sheet, durations, 'loop', 'image/png', file.name), notes };
+};
+
+/**
+ * Decodes a GIF, a short video or a sprite sheet into assets the player can
+ * use. Sprite sheets need `spriteSheet` since only the user knows their grid.
+ */
+export const importAnimation = (file: File, spriteSheet?: SpriteSheetImportOptions): Promise<ImportedAnimation> => {
+  switch (importKindOf(file)) {
+    case 'gif':
+      return importGif(file);
+    case 'video':
+      return importVideo(file);
+    case 'sprite-sheet':
+      if (!spriteSheet) return Promise.reject(new Error('Choose the grid the sprite sheet is laid out in.'));
+      return importSpriteSheet(file, spriteSheet);
+    default:
+      return Promise.reject(new Error('Choose a GIF, a WebM or MP4 video, or a sprite sheet image.'));
+  }
+};
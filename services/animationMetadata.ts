@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { LoopMode } from '../types';
+
+/** Everything the model is asked to return alongside the sprite sheet. */
+export interface AnimationMetadata {
+  /** Milliseconds per frame. */
+  frameDuration: number;
+  /** Optional per-frame timing, exactly one entry per frame. */
+  frameDurations?: number[];
+  loopType: LoopMode;
+  /** A short meme caption suggested by the model. */
+  caption?: string;
+  /** A plain description of the animation for screen readers. */
+  altText?: string;
+}
+
+/** `edited` once the user has changed the value in the player. */
+export type MetadataSource = 'model' | 'fallback' | 'edited';
+export type MetadataSources = Record<keyof AnimationMetadata, MetadataSource>;
+
+/** The sources with `keys` marked as changed by the user. Assets without sources stay without. */
+export const markMetadataEdited = (sources: MetadataSources | undefined, keys: (keyof AnimationMetadata)[]): MetadataSources | undefined => {
+  if (!sources) return undefined;
+  const edited = { ...sources };
+  keys.forEach(key => { edited[key] = 'edited'; });
+  return edited;
+};
+
+export interface ParsedMetadata {
+  metadata: AnimationMetadata;
+  /** Whether each value came from the model or is our fallback. */
+  sources: MetadataSources;
+  /** Why model values were rejected, for logging. Empty when everything validated. */
+  issues: string[];
+}
+
+export const METADATA_LIMITS = {
+  minFrameDuration: 40,
+  maxFrameDuration: 2000,
+  maxCaptionLength: 80,
+  maxAltTextLength: 300,
+};
+
+const LOOP_TYPES: LoopMode[] = ['loop', 'ping-pong', 'once'];
+const KNOWN_KEYS: (keyof AnimationMetadata)[] = ['frameDuration', 'frameDurations', 'loopType', 'caption', 'altText'];
+
+/**
+ * Describes the JSON contract for the prompt, so the instructions and the
+ * parser can't drift apart.
+ */
+export const describeMetadataSchema = (frameCount: number): string => {
+  const { minFrameDuration, maxFrameDuration, maxCaptionLength, maxAltTextLength } = METADATA_LIMITS;
+  return `A single JSON object with these keys (no markdown backticks, no other text):
+- "frameDuration" (required): integer milliseconds per frame, between ${minFrameDuration} and ${maxFrameDuration}.
+- "frameDurations" (optional): an array of exactly ${frameCount} integers in the same range, one per frame in order, when some frames should linger longer than others.
+- "loopType" (required): "loop" if the last frame flows back into the first, "ping-pong" if it should play forwards then backwards, or "once" if it should stop on the last frame.
+- "caption" (required): a short, funny meme caption for the animation, at most ${maxCaptionLength} characters.
+- "altText" (required): a plain one-sentence description of what happens in the animation, at most ${maxAltTextLength} characters.
+
+Example:
+{"frameDuration": 150, "loopType": "loop", "caption": "When the quarterly report drops", "altText": "A man in a hoodie nervously sips coffee while papers fly past him."}`;
+};
+
+/**
+ * Finds the first complete top-level JSON object in the text, tolerating prose
+ * or a markdown fence around it. Braces inside strings are skipped.
+ */
+const extractJsonObject = (text: string): string | null => {
+  const start = text.indexOf('{');
+  if (start < 0) return null;
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return text.slice(start, i + 1);
+    }
+  }
+  return null;
+};
+
+const isDuration = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+  && value >= METADATA_LIMITS.minFrameDuration && value <= METADATA_LIMITS.maxFrameDuration;
+
+const cleanText = (value: unknown, maxLength: number): string | null =>
+  typeof value === 'string' && value.trim().length > 0 && value.trim().length <= maxLength ? value.trim() : null;
+
+/**
+ * Parses and validates the model's metadata. Each field is checked on its own:
+ * a bad value falls back without discarding the valid ones, and `sources`
+ * records which values the model actually supplied.
+ */
+export const parseAnimationMetadata = (
+  text: string | null,
+  frameCount: number,
+  fallback: Pick<AnimationMetadata, 'frameDuration'> & Partial<AnimationMetadata>
+): ParsedMetadata => {
+  const metadata: AnimationMetadata = {
+    frameDuration: fallback.frameDuration,
+    frameDurations: fallback.frameDurations,
+    loopType: fallback.loopType ?? 'loop',
+    caption: fallback.caption,
+    altText: fallback.altText,
+  };
+  const sources: MetadataSources = {
+    frameDuration: 'fallback',
+    frameDurations: 'fallback',
+    loopType: 'fallback',
+    caption: 'fallback',
+    altText: 'fallback',
+  };
+  const issues: string[] = [];
+
+  const json = text ? extractJsonObject(text) : null;
+  if (!json) {
+    issues.push(text ? 'The response text contained no JSON object.' : 'The response had no text.');
+    return { metadata, sources, issues };
+  }
+
+  let raw: Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('not an object');
+    }
+    raw = parsed;
+  } catch (e) {
+    issues.push(`The metadata is not valid JSON (${e instanceof Error ? e.message : e}).`);
+    return { metadata, sources, issues };
+  }
+
+  Object.keys(raw)
+    .filter(key => !KNOWN_KEYS.includes(key as keyof AnimationMetadata))
+    .forEach(key => issues.push(`Ignored unknown key "${key}".`));
+
+  if (isDuration(raw.frameDuration)) {
+    metadata.frameDuration = Math.round(raw.frameDuration);
+    sources.frameDuration = 'model';
+  } else {
+    issues.push(`"frameDuration" must be a number between ${METADATA_LIMITS.minFrameDuration} and ${METADATA_LIMITS.maxFrameDuration}; got ${JSON.stringify(raw.frameDuration)}.`);
+  }
+
+  if (raw.frameDurations !== undefined) {
+    if (Array.isArray(raw.frameDurations) && raw.frameDurations.length === frameCount && raw.frameDurations.every(isDuration)) {
+      metadata.frameDurations = (raw.frameDurations as number[]).map(Math.round);
+      sources.frameDurations = 'model';
+    } else {
+      issues.push(`"frameDurations" must be ${frameCount} numbers between ${METADATA_LIMITS.minFrameDuration} and ${METADATA_LIMITS.maxFrameDuration}.`);
+    }
+  }
+
+  if (LOOP_TYPES.includes(raw.loopType as LoopMode)) {
+    metadata.loopType = raw.loopType as LoopMode;
+    sources.loopType = 'model';
+  } else {
+    issues.push(`"loopType" must be one of ${LOOP_TYPES.join(', ')}; got ${JSON.stringify(raw.loopType)}.`);
+  }
+
+  const caption = cleanText(raw.caption, METADATA_LIMITS.maxCaptionLength);
+  if (caption) {
+    metadata.caption = caption;
+    sources.caption = 'model';
+  } else {
+    issues.push(`"caption" must be a non-empty string of at most ${METADATA_LIMITS.maxCaptionLength} characters.`);
+  }
+
+  const altText = cleanText(raw.altText, METADATA_LIMITS.maxAltTextLength);
+  if (altText) {
+    metadata.altText = altText;
+    sources.altText = 'model';
+  } else {
+    issues.push(`"altText" must be a non-empty string of at most ${METADATA_LIMITS.maxAltTextLength} characters.`);
+  }
+
+  return { metadata, sources, issues };
+};
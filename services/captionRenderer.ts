@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Caption } from '../types';
+
+export const CAPTION_FONT_FAMILY = 'Impact, Anton, "Arial Black", sans-serif';
+export const MIN_CAPTION_SIZE = 0.05;
+export const MAX_CAPTION_SIZE = 0.2;
+
+// Gap between the caption and the frame edge, as a fraction of the frame height.
+const EDGE_MARGIN = 0.04;
+const LINE_HEIGHT = 1.1;
+const OUTLINE_WIDTH = 0.16; // relative to the font size
+const MAX_TEXT_WIDTH = 0.92; // relative to the frame width
+
+export const createCaption = (text: string, position: Caption['position'] = 'top'): Caption => ({
+  id: `caption-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  text,
+  position,
+  size: 0.1,
+  color: '#ffffff',
+  outlineColor: '#000000',
+  frameRange: null,
+});
+
+/** `orderPosition` is the step's position in the frame order, not the sprite sheet index. */
+export const isCaptionVisible = (caption: Caption, orderPosition: number): boolean =>
+  caption.text.trim().length > 0
+  && (!caption.frameRange || (orderPosition >= caption.frameRange.start && orderPosition <= caption.frameRange.end));
+
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+/** Waits for the caption font so the first exported frame doesn't fall back to a system font. */
+export const loadCaptionFont = async (): Promise<void> => {
+  try {
+    await document.fonts?.load(`48px ${CAPTION_FONT_FAMILY}`);
+  } catch (error) {
+    console.warn("Could not load the caption font:", error);
+  }
+};
+
+/** Draws classic outlined meme text for every caption visible at `orderPosition`. */
+export const drawCaptions = (ctx: CanvasRenderingContext2D, captions: Caption[], orderPosition: number, width: number, height: number) => {
+  captions.forEach(caption => {
+    if (!isCaptionVisible(caption, orderPosition)) return;
+    const fontSize = Math.round(caption.size * height);
+    const lineHeight = fontSize * LINE_HEIGHT;
+    ctx.save();
+    ctx.font = `${fontSize}px ${CAPTION_FONT_FAMILY}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = fontSize * OUTLINE_WIDTH;
+    ctx.strokeStyle = caption.outlineColor;
+    ctx.fillStyle = caption.color;
+
+    const lines = wrapLines(ctx, caption.text.toUpperCase(), width * MAX_TEXT_WIDTH);
+    const blockHeight = lines.length * lineHeight;
+    const margin = height * EDGE_MARGIN;
+    const top = caption.position === 'top'
+      ? margin
+      : caption.position === 'bottom'
+        ? height - margin - blockHeight
+        : (height - blockHeight) / 2;
+
+    lines.forEach((line, i) => {
+      const y = top + i * lineHeight;
+      ctx.strokeText(line, width / 2, y);
+      ctx.fillText(line, width / 2, y);
+    });
+    ctx.restore();
+  });
+};
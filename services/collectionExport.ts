@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CreationRecord } from '../types';
+import { loadImageBlob } from './creationStore';
+import { styleOf } from './gallerySearch';
+import { exportBaseName } from './exportPipeline';
+import { ZipEntry, createZip } from './zipArchive';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+/** What's needed to play a creation back from its sheet, next to the sheet itself. */
+const describeCreation = (record: CreationRecord, imageName: string) => ({
+  prompt: record.prompt,
+  savedAt: record.id,
+  styleId: styleOf(record),
+  source: record.source ?? 'generated',
+  tags: record.tags ?? [],
+  favorite: !!record.favorite,
+  image: imageName,
+  frames: record.assets.frames,
+  frameDuration: record.assets.frameDuration,
+  frameDurations: record.assets.frameDurations,
+  frameOrder: record.assets.frameOrder,
+  loopMode: record.assets.loopMode ?? 'loop',
+  altText: record.assets.altText,
+  captions: record.captions ?? [],
+  overlays: record.overlays ?? [],
+  watermark: record.watermark ?? null,
+});
+
+/**
+ * Zips each creation's current sprite sheet with a JSON file describing its
+ * frames, timing, captions and stickers. Names come from the prompts and are
+ * numbered when two prompts slug the same.
+ */
+export const createCollectionZip = async (records: CreationRecord[]): Promise<Blob> => {
+  const usedNames = new Set<string>();
+  const entries: ZipEntry[] = [];
+  for (const record of records) {
+    const base = exportBaseName(record.prompt);
+    let name = base;
+    for (let n = 2; usedNames.has(name); n++) name = `${base}-${n}`;
+    usedNames.add(name);
+
+    const sheet = await loadImageBlob(record.assets.imageData);
+    const imageName = `${name}.${EXTENSIONS[record.assets.imageData.mimeType] ?? 'png'}`;
+    entries.push({ name: imageName, data: new Uint8Array(await sheet.arrayBuffer()) });
+    entries.push({ name: `${name}.json`, data: new TextEncoder().encode(JSON.stringify(describeCreation(record, imageName), null, 2)) });
+  }
+  return createZip(entries);
+};
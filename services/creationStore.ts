@@ -0,0 +1,351 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Creation, CreationRecord, StoredImage } from '../types';
+import { AnimationAssets } from './geminiService';
+import { InlineImage } from './imageGenerationProvider';
+import { DEFAULT_GRID, createUniformFrameLayout } from './frameLayout';
+
+/**
+ * Saved creations live in IndexedDB. Metadata records are small and loaded up
+ * front; sprite sheets and photos are blobs keyed by a hash of their contents,
+ * so versions that share a sheet store it once. Gallery thumbnails are made on
+ * first request and cached next to them.
+ */
+
+const DB_NAME = 'gmSbf';
+const DB_VERSION = 1;
+const CREATIONS = 'creations';
+const IMAGES = 'images';
+const THUMBNAILS = 'thumbnails';
+// Where creations were kept before IndexedDB; migrated once, then removed.
+const LEGACY_STORAGE_KEY = 'gmSbfMemes';
+const THUMBNAIL_SIZE = 192;
+// Edits re-save every version's sheet, so remember recent ids instead of hashing megabytes each time.
+const MAX_CACHED_IMAGE_IDS = 32;
+
+export interface StorageUsage {
+  /** Bytes this site is using, across all of its storage. */
+  usage: number;
+  /** Bytes the browser will let this site use. */
+  quota: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+let writeQueue: Promise<unknown> = Promise.resolve();
+const imageIdCache = new Map<string, string>();
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error ?? new Error('The storage transaction was aborted.'));
+});
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("This browser can't store memes."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CREATIONS)) db.createObjectStore(CREATIONS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(IMAGES)) db.createObjectStore(IMAGES);
+        if (!db.objectStoreNames.contains(THUMBNAILS)) db.createObjectStore(THUMBNAILS);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+/** Runs writes one at a time, so a slow save can't land on top of a newer one. */
+const enqueueWrite = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = writeQueue.then(task);
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
+
+/** True when a save failed because the browser's storage quota is used up. */
+export const isStorageFullError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const rememberImageId = (data: string, imageId: string) => {
+  imageIdCache.delete(data);
+  imageIdCache.set(data, imageId);
+  if (imageIdCache.size > MAX_CACHED_IMAGE_IDS) {
+    imageIdCache.delete(imageIdCache.keys().next().value);
+  }
+};
+
+const inlineImageToBlob = async (image: InlineImage): Promise<Blob> =>
+  (await fetch(`data:${image.mimeType};base64,${image.data}`)).blob();
+
+const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => {
+    const dataUrl = reader.result as string;
+    resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  };
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const hashBlob = async (blob: Blob): Promise<string> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    // Insecure origins have no SubtleCrypto; identical sheets then just get stored twice.
+    return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  }
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Swaps every inline image of a creation for a reference. `images` holds each
+ * referenced image by id, already as a blob when it had to be hashed.
+ */
+const dehydrate = async (
+  creation: Partial<Creation>
+): Promise<{ record: Partial<CreationRecord>; images: Map<string, Blob | InlineImage> }> => {
+  const images = new Map<string, Blob | InlineImage>();
+  const store = async (image: InlineImage): Promise<StoredImage> => {
+    let imageId = imageIdCache.get(image.data);
+    if (imageId) {
+      if (!images.has(imageId)) images.set(imageId, image);
+    } else {
+      const blob = await inlineImageToBlob(image);
+      imageId = await hashBlob(blob);
+      images.set(imageId, blob);
+      rememberImageId(image.data, imageId);
+    }
+    return { imageId, mimeType: image.mimeType };
+  };
+  const storeAssets = async (assets: AnimationAssets) => ({ ...assets, imageData: await store(assets.imageData) });
+
+  const { assets, versions, referenceImage, ...rest } = creation;
+  const record: Partial<CreationRecord> = { ...rest };
+  if (assets) record.assets = await storeAssets(assets);
+  if (versions) {
+    record.versions = [];
+    for (const version of versions) record.versions.push({ ...version, assets: await storeAssets(version.assets) });
+  }
+  if (referenceImage) record.referenceImage = await store(referenceImage);
+  return { record, images };
+};
+
+/** Blobs for the images storage doesn't have yet. Runs before the write transaction, which can't wait on decoding. */
+const missingBlobs = async (images: Map<string, Blob | InlineImage>): Promise<Map<string, Blob>> => {
+  const db = await openDatabase();
+  const storedIds = new Set((await requestResult(db.transaction(IMAGES).objectStore(IMAGES).getAllKeys())).map(String));
+  const blobs = new Map<string, Blob>();
+  for (const [imageId, image] of images) {
+    if (!storedIds.has(imageId)) blobs.set(imageId, image instanceof Blob ? image : await inlineImageToBlob(image));
+  }
+  return blobs;
+};
+
+const referencedImageIds = (record: CreationRecord): string[] => [
+  record.assets.imageData.imageId,
+  ...(record.versions ?? []).map(version => version.assets.imageData.imageId),
+  ...(record.referenceImage ? [record.referenceImage.imageId] : []),
+];
+
+/**
+ * Writes blobs that aren't stored yet, lets `update` change the records, then
+ * drops images no record points at any more. It all happens in one
+ * transaction, so a failed save leaves the previous state intact.
+ */
+const writeRecords = async (
+  blobs: Map<string, Blob>,
+  update: (creations: IDBObjectStore, thumbnails: IDBObjectStore) => Promise<void>
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([CREATIONS, IMAGES, THUMBNAILS], 'readwrite');
+  const done = transactionDone(transaction);
+  const images = transaction.objectStore(IMAGES);
+  try {
+    const storedIds = new Set((await requestResult(images.getAllKeys())).map(String));
+    blobs.forEach((blob, imageId) => {
+      if (!storedIds.has(imageId)) images.put(blob, imageId);
+    });
+    await update(transaction.objectStore(CREATIONS), transaction.objectStore(THUMBNAILS));
+
+    const records = await requestResult(transaction.objectStore(CREATIONS).getAll()) as CreationRecord[];
+    const inUse = new Set(records.flatMap(referencedImageIds));
+    storedIds.forEach(imageId => {
+      if (!inUse.has(imageId)) images.delete(imageId);
+    });
+  } catch (error) {
+    try {
+      transaction.abort();
+    } catch {
+      // Already aborted by the failed request.
+    }
+    await done.catch(() => undefined);
+    throw error;
+  }
+  await done;
+};
+
+const putCreation = async (creation: Creation): Promise<CreationRecord> => {
+  const { record, images } = await dehydrate(creation);
+  await writeRecords(await missingBlobs(images), async (creations, thumbnails) => {
+    creations.put(record);
+    thumbnails.delete(record.id!);
+  });
+  return record as CreationRecord;
+};
+
+export const saveCreation = (creation: Creation): Promise<CreationRecord> => enqueueWrite(() => putCreation(creation));
+
+export const saveCreations = (creations: Creation[]): Promise<CreationRecord[]> => enqueueWrite(async () => {
+  const records: CreationRecord[] = [];
+  for (const creation of creations) records.push(await putCreation(creation));
+  return records;
+});
+
+/** Applies a partial change to a saved creation and returns the updated record. */
+export const updateCreation = (id: string, patch: Partial<Creation>): Promise<CreationRecord> => enqueueWrite(async () => {
+  const { record: recordPatch, images } = await dehydrate(patch);
+  let updated: CreationRecord | null = null;
+  await writeRecords(await missingBlobs(images), async (creations, thumbnails) => {
+    const existing = await requestResult(creations.get(id)) as CreationRecord | undefined;
+    if (!existing) throw new Error('That meme is no longer in your collection.');
+    updated = { ...existing, ...recordPatch, id };
+    creations.put(updated);
+    if (recordPatch.assets) thumbnails.delete(id);
+  });
+  return updated!;
+});
+
+export const deleteCreations = (ids: string[]): Promise<void> => enqueueWrite(() =>
+  writeRecords(new Map(), async (creations, thumbnails) => {
+    ids.forEach(id => {
+      creations.delete(id);
+      thumbnails.delete(id);
+    });
+  })
+);
+
+/** A stored image as the blob it's kept as, for exports that don't need it inline. */
+export const loadImageBlob = async (image: StoredImage): Promise<Blob> => {
+  const db = await openDatabase();
+  const blob = await requestResult(db.transaction(IMAGES).objectStore(IMAGES).get(image.imageId)) as Blob | undefined;
+  if (!blob) throw new Error('Part of this meme is missing from storage.');
+  return blob;
+};
+
+const readImage = async (image: StoredImage): Promise<InlineImage> => {
+  const data = await blobToBase64(await loadImageBlob(image));
+  rememberImageId(data, image.imageId);
+  return { data, mimeType: image.mimeType };
+};
+
+/** Loads a record's images back in, giving the creation the player and exports work with. */
+export const loadCreation = async (record: CreationRecord): Promise<Creation> => {
+  const images = new Map<string, Promise<InlineImage>>();
+  const load = (image: StoredImage) => {
+    if (!images.has(image.imageId)) images.set(image.imageId, readImage(image));
+    return images.get(image.imageId)!;
+  };
+  const { assets, versions, referenceImage, ...rest } = record;
+  return {
+    ...rest,
+    assets: { ...assets, imageData: await load(assets.imageData) },
+    versions: versions && await Promise.all(versions.map(async version => ({
+      ...version,
+      assets: { ...version.assets, imageData: await load(version.assets.imageData) },
+    }))),
+    referenceImage: referenceImage && await load(referenceImage),
+  };
+};
+
+/** Moves creations saved in localStorage by earlier releases into IndexedDB, once. */
+const migrateLegacyStorage = async () => {
+  let legacy: Creation[];
+  try {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return;
+    legacy = JSON.parse(stored);
+  } catch (e) {
+    console.error("Failed to read creations from localStorage", e);
+    return;
+  }
+  if (Array.isArray(legacy) && legacy.length > 0) {
+    // Records are keyed by id and images by content, so a migration cut short can simply run again.
+    await saveCreations(legacy);
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+/** Every saved creation's metadata, newest first. Migrates older localStorage data on the first call. */
+export const loadCreationRecords = async (): Promise<CreationRecord[]> => {
+  try {
+    await migrateLegacyStorage();
+  } catch (e) {
+    console.error("Failed to migrate creations from localStorage", e);
+  }
+  const db = await openDatabase();
+  const records = await requestResult(db.transaction(CREATIONS).objectStore(CREATIONS).getAll()) as CreationRecord[];
+  return records.sort((a, b) => b.id.localeCompare(a.id));
+};
+
+const renderThumbnail = async (record: CreationRecord, sheet: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(sheet);
+  try {
+    const { assets } = record;
+    const frames = assets.frames.length > 0
+      ? assets.frames
+      : createUniformFrameLayout(bitmap.width, bitmap.height, assets.grid ?? DEFAULT_GRID);
+    const frame = frames[assets.frameOrder?.[0] ?? 0] ?? frames[0];
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_SIZE;
+    canvas.height = THUMBNAIL_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create a canvas for the thumbnail.');
+    ctx.drawImage(bitmap, frame.x, frame.y, frame.width, frame.height, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the thumbnail.')), 'image/webp', 0.85);
+    });
+  } finally {
+    bitmap.close();
+  }
+};
+
+/** The first frame of a creation, small enough for the gallery. Made from the sheet the first time it's asked for. */
+export const loadThumbnail = async (record: CreationRecord): Promise<Blob> => {
+  const db = await openDatabase();
+  const cached = await requestResult(db.transaction(THUMBNAILS).objectStore(THUMBNAILS).get(record.id)) as Blob | undefined;
+  if (cached) return cached;
+
+  const thumbnail = await renderThumbnail(record, await loadImageBlob(record.assets.imageData));
+  try {
+    const transaction = db.transaction(THUMBNAILS, 'readwrite');
+    transaction.objectStore(THUMBNAILS).put(thumbnail, record.id);
+    await transactionDone(transaction);
+  } catch (e) {
+    // Not caching it only costs time on the next visit.
+    console.warn("Could not cache the thumbnail:", e);
+  }
+  return thumbnail;
+};
+
+/** How much storage the site uses and may use, or null where the browser won't say. */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+};
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ExportSettings, LoopMode } from '../types';
+import { exportGif } from './gifExport';
+import { encodeVideo } from './videoEncoder';
+
+export interface ExportProgress {
+  /** What's happening, e.g. "Encoding" or "Recording". */
+  stage: string;
+  fraction: number;
+}
+
+export interface ExportResult {
+  file: File;
+  /** Width and height the file was written at; a GIF size target can lower it. */
+  size: number;
+  /** False when the file is still over the size target after every attempt. */
+  withinBudget: boolean;
+  /** Changes made to meet the limits, and any limit that couldn't be met, for showing to the user. */
+  notes: string[];
+}
+
+// Video bitrate is only a hint, so aim below the size target to leave room for the container and overshoot.
+const VIDEO_BITRATE_HEADROOM = 0.85;
+const MAX_VIDEO_ATTEMPTS = 2;
+
+const formatKb = (bytes: number) => `${Math.ceil(bytes / 1024)} KB`;
+
+/**
+ * Builds a file name without an extension from the prompt, e.g.
+ * "sbf-sipping-coffee-while-charts-crash". Falls back to "sbf-meme" when the
+ * prompt has nothing usable.
+ */
+export const exportBaseName = (prompt: string, suffix?: string): string => {
+  const slug = prompt
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .slice(0, 6)
+    .join('-')
+    .slice(0, 48)
+    .replace(/-+$/, '');
+  return `sbf-${slug || 'meme'}${suffix ? `-${suffix}` : ''}`;
+};
+
+export const exportFileName = (prompt: string, extension: string, suffix?: string): string =>
+  `${exportBaseName(prompt, suffix)}.${extension}`;
+
+/**
+ * Drops frames that would show for less than one tick at `maxFrameRate`,
+ * giving their time to the frame before them (or after, for leading ones)
+ * so the total running time doesn't change.
+ */
+const limitFrameRate = <T>(frames: T[], durations: number[], maxFrameRate: number | null) => {
+  if (!maxFrameRate) return { frames, durations };
+  const minDuration = 1000 / maxFrameRate;
+  const keptFrames: T[] = [];
+  const keptDurations: number[] = [];
+  // Time from short frames before the first kept one, owed to whichever frame comes next.
+  let leadingDuration = 0;
+  frames.forEach((frame, i) => {
+    if (durations[i] >= minDuration) {
+      keptFrames.push(frame);
+      keptDurations.push(durations[i] + leadingDuration);
+      leadingDuration = 0;
+    } else if (keptDurations.length > 0) {
+      keptDurations[keptDurations.length - 1] += durations[i];
+    } else {
+      leadingDuration += durations[i];
+    }
+  });
+  // Every frame was short: show the first for the whole time.
+  if (keptFrames.length === 0 && frames.length > 0) return { frames: [frames[0]], durations: [leadingDuration] };
+  return { frames: keptFrames, durations: keptDurations };
+};
+
+/**
+ * Encodes rendered frames into the file Export downloads and Share sends,
+ * applying the frame rate, duration and size limits in `settings`.
+ * `durations` has one entry per frame, in milliseconds.
+ */
+export const createExportFile = async (
+  renderedFrames: HTMLCanvasElement[],
+  renderedDurations: number[],
+  settings: ExportSettings,
+  loopMode: LoopMode,
+  fileName: (extension: string) => string,
+  onProgress: (progress: ExportProgress) => void
+): Promise<ExportResult> => {
+  const notes: string[] = [];
+  const { frames, durations: limitedDurations } = limitFrameRate(renderedFrames, renderedDurations, settings.maxFrameRate);
+  if (frames.length < renderedFrames.length) {
+    notes.push(`Merged ${renderedFrames.length - frames.length} very short frame${renderedFrames.length - frames.length === 1 ? '' : 's'} to stay within ${settings.maxFrameRate} fps.`);
+  }
+
+  let durations = limitedDurations;
+  const passDuration = durations.reduce((sum, d) => sum + d, 0);
+  if (settings.maxDurationMs && passDuration > settings.maxDurationMs) {
+    const factor = settings.maxDurationMs / passDuration;
+    durations = durations.map(d => Math.max(1, Math.floor(d * factor)));
+    notes.push(`Sped up ${Math.round(100 / factor)}% to fit ${settings.maxDurationMs / 1000} seconds.`);
+  }
+  const targetBytes = settings.targetSizeKb ? settings.targetSizeKb * 1024 : null;
+
+  if (settings.format !== 'gif') {
+    const format = settings.format;
+    const pass = durations.reduce((sum, d) => sum + d, 0);
+    const loopCount = settings.maxDurationMs
+      ? Math.max(1, Math.min(settings.loopCount, Math.floor(settings.maxDurationMs / pass)))
+      : settings.loopCount;
+    const seconds = (pass * loopCount) / 1000;
+    let bitrate = targetBytes ? Math.min(settings.bitrate, Math.floor(targetBytes * 8 * VIDEO_BITRATE_HEADROOM / seconds)) : settings.bitrate;
+
+    for (let attempt = 0; ; attempt++) {
+      const blob = await encodeVideo(
+        frames,
+        durations,
+        { format, size: settings.size, bitrate, loopCount },
+        fraction => onProgress({ stage: attempt === 0 ? 'Recording' : 'Re-recording', fraction })
+      );
+      const withinBudget = !targetBytes || blob.size <= targetBytes;
+      if (withinBudget || attempt + 1 >= MAX_VIDEO_ATTEMPTS) {
+        if (!withinBudget) {
+          notes.push(`Couldn't get the video under ${formatKb(targetBytes)}; it's ${formatKb(blob.size)}.`);
+        }
+        return { file: new File([blob], fileName(format), { type: blob.type }), size: settings.size, withinBudget, notes };
+      }
+      bitrate = Math.floor(bitrate * (targetBytes / blob.size) * VIDEO_BITRATE_HEADROOM);
+    }
+  }
+
+  const result = await exportGif(frames, durations, {
+    size: settings.size,
+    maxColors: settings.gifColors,
+    palette: settings.gifPalette,
+    dither: settings.dither,
+    transparent: settings.transparent,
+    loop: loopMode !== 'once',
+    targetBytes,
+  }, (fraction, attempt) => onProgress({ stage: attempt === 0 ? 'Encoding' : 'Shrinking', fraction }));
+
+  if (!result.fitsTarget) {
+    notes.push(`Couldn't get the GIF under ${formatKb(targetBytes)}. The smallest was ${formatKb(result.blob.size)} at ${result.size}×${result.size}.`);
+  } else if (result.size < settings.size || result.colors < settings.gifColors) {
+    notes.push(`Reduced to ${result.size}×${result.size} and ${result.colors} colours to stay under ${formatKb(targetBytes)}.`);
+  }
+  return {
+    file: new File([result.blob], fileName('gif'), { type: 'image/gif' }),
+    size: result.size,
+    withinBudget: result.fitsTarget,
+    notes,
+  };
+};
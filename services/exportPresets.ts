@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ExportSettings } from '../types';
+
+export type ExportPresetId = 'discord-emoji' | 'telegram-sticker' | 'slack-emoji' | 'x-gif';
+
+export interface ExportPreset {
+  id: ExportPresetId;
+  label: string;
+  /** The platform limits the preset targets, shown next to the picker. */
+  description: string;
+  /** Settings the preset overrides; anything else keeps the user's choice. */
+  settings: Partial<ExportSettings>;
+}
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+  {
+    id: 'discord-emoji',
+    label: 'Discord emoji',
+    description: '128×128 GIF under 256 KB',
+    settings: { format: 'gif', size: 128, targetSizeKb: 256, maxFrameRate: 50, maxDurationMs: null, transparent: false },
+  },
+  {
+    id: 'telegram-sticker',
+    label: 'Telegram sticker',
+    description: '512×512 WebM, at most 3 seconds and 256 KB, up to 30 fps',
+    settings: { format: 'webm', size: 512, targetSizeKb: 256, maxFrameRate: 30, maxDurationMs: 3000, loopCount: 10 },
+  },
+  {
+    id: 'slack-emoji',
+    label: 'Slack emoji',
+    description: '128×128 GIF under 128 KB',
+    settings: { format: 'gif', size: 128, targetSizeKb: 128, maxFrameRate: 50, maxDurationMs: null, transparent: false },
+  },
+  {
+    // X takes 15 MB GIFs on the web but only 5 MB from its mobile apps.
+    id: 'x-gif',
+    label: 'X (Twitter)',
+    description: '720×720 GIF under 5 MB',
+    settings: { format: 'gif', size: 720, targetSizeKb: 5120, maxFrameRate: 50, maxDurationMs: null },
+  },
+];
+
+export const getExportPreset = (id: ExportPresetId | null): ExportPreset | null =>
+  EXPORT_PRESETS.find(preset => preset.id === id) ?? null;
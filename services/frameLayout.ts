@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Frame, GridLayout } from '../types';
+
+export const GRID_PRESETS: { id: string; label: string; grid: GridLayout }[] = [
+  { id: '2x2', label: '2x2', grid: { columns: 2, rows: 2 } },
+  { id: '3x3', label: '3x3', grid: { columns: 3, rows: 3 } },
+  { id: '4x4', label: '4x4', grid: { columns: 4, rows: 4 } },
+  { id: '2x4', label: '2x4 strip', grid: { columns: 4, rows: 2 } },
+];
+
+export const DEFAULT_GRID: GridLayout = { columns: 3, rows: 3 };
+
+export const frameCountOf = (grid: GridLayout): number => grid.columns * grid.rows;
+
+/** Describes a grid the way the prompts do: rows first, then columns. */
+export const describeGrid = (grid: GridLayout): string =>
+  `${grid.rows}x${grid.columns} grid (${grid.rows} rows, ${grid.columns} columns)`;
+
+// Pixels trimmed from each edge of a cell to hide slivers of the neighbouring frame.
+export const DEFAULT_CELL_INSET = 10;
+
+/** Splits a sheet into equally sized cells, in reading order. */
+export const createUniformFrameLayout = (
+  sheetWidth: number,
+  sheetHeight: number,
+  { columns, rows }: GridLayout,
+  inset: number = DEFAULT_CELL_INSET
+): Frame[] => {
+  const frameWidth = Math.floor(sheetWidth / columns);
+  const frameHeight = Math.floor(sheetHeight / rows);
+  const frameLayout: Frame[] = [];
+
+  for (let i = 0; i < columns * rows; i++) {
+    const initialX = (i % columns) * frameWidth;
+    const initialY = Math.floor(i / columns) * frameHeight;
+    frameLayout.push({
+      x: initialX + inset,
+      y: initialY + inset,
+      width: frameWidth - (inset * 2),
+      height: frameHeight - (inset * 2),
+    });
+  }
+  return frameLayout;
+};
\ No newline at end of file
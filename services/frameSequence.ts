@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { LoopMode } from '../types';
+
+export const LOOP_MODES: { id: LoopMode; label: string }[] = [
+  { id: 'loop', label: 'Loop' },
+  { id: 'ping-pong', label: 'Ping-pong' },
+  { id: 'once', label: 'Play once' },
+];
+
+export const identityFrameOrder = (frameCount: number): number[] =>
+  Array.from({ length: frameCount }, (_, i) => i);
+
+/** Uses the stored order when every index still points at a frame, otherwise every frame in order. */
+export const resolveFrameOrder = (frameOrder: number[] | undefined, frameCount: number): number[] =>
+  frameOrder && frameOrder.length > 0 && frameOrder.every(i => Number.isInteger(i) && i >= 0 && i < frameCount)
+    ? frameOrder
+    : identityFrameOrder(frameCount);
+
+/**
+ * Expands a frame order into one pass of playback. Ping-pong plays the order
+ * forwards then backwards without repeating the two end frames.
+ */
+export const buildPlaybackSequence = (frameOrder: number[], loopMode: LoopMode = 'loop'): number[] => {
+  if (loopMode !== 'ping-pong' || frameOrder.length < 3) {
+    return frameOrder;
+  }
+  return [...frameOrder, ...frameOrder.slice(1, -1).reverse()];
+};
+
+export const moveFrame = (frameOrder: number[], from: number, to: number): number[] => {
+  const next = [...frameOrder];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+export const duplicateFrame = (frameOrder: number[], position: number): number[] => [
+  ...frameOrder.slice(0, position + 1),
+  frameOrder[position],
+  ...frameOrder.slice(position + 1),
+];
+
+/** Removes one entry; the last remaining frame can't be deleted. */
+export const removeFrame = (frameOrder: number[], position: number): number[] =>
+  frameOrder.length > 1 ? frameOrder.filter((_, i) => i !== position) : frameOrder;
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CreationRecord } from '../types';
+import { ArtStyleId, getArtStyle } from '../styles';
+
+export type GallerySort = 'newest' | 'oldest' | 'name-asc' | 'name-desc';
+
+export const GALLERY_SORTS: { id: GallerySort; label: string }[] = [
+  { id: 'newest', label: 'Newest first' },
+  { id: 'oldest', label: 'Oldest first' },
+  { id: 'name-asc', label: 'Name A–Z' },
+  { id: 'name-desc', label: 'Name Z–A' },
+];
+
+/** Where a creation came from: a bundled preset's path, or one of these. */
+export const UPLOAD_SOURCE = 'upload';
+export const IMPORTED_SOURCE = 'imported';
+
+export interface GalleryFilters {
+  query: string;
+  tag: string | null;
+  favoritesOnly: boolean;
+  styleId: ArtStyleId | null;
+  /** A preset path, `UPLOAD_SOURCE` or `IMPORTED_SOURCE`. */
+  source: string | null;
+  sort: GallerySort;
+}
+
+export const DEFAULT_GALLERY_FILTERS: GalleryFilters = {
+  query: '',
+  tag: null,
+  favoritesOnly: false,
+  styleId: null,
+  source: null,
+  sort: 'newest',
+};
+
+// Creations saved before the source was recorded count as uploads.
+export const sourceOf = (creation: CreationRecord): string =>
+  creation.source === 'imported' ? IMPORTED_SOURCE : creation.sourcePreset ?? UPLOAD_SOURCE;
+
+// Imports weren't drawn in any style, including ones saved before that was left unset.
+export const styleOf = (creation: CreationRecord): ArtStyleId | null =>
+  creation.source === 'imported' ? null : getArtStyle(creation.styleId).id;
+
+const normalize = (text: string) => text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+
+/** Splits free text into tags: comma separated, trimmed, lower-case and without duplicates. */
+export const parseTags = (text: string): string[] =>
+  [...new Set(text.split(',').map(tag => tag.trim().toLowerCase().replace(/^#/, '')).filter(Boolean))];
+
+/** Everything a search matches against: the prompt, the tags and the caption text. */
+const searchTextOf = (creation: CreationRecord): string => normalize([
+  creation.prompt,
+  ...(creation.tags ?? []),
+  ...(creation.captions ?? []).map(caption => caption.text),
+].join(' '));
+
+const compareCreations = (sort: GallerySort) => (a: CreationRecord, b: CreationRecord): number => {
+  switch (sort) {
+    // Ids are ISO timestamps, so they sort by date.
+    case 'oldest':
+      return a.id.localeCompare(b.id);
+    case 'name-asc':
+      return a.prompt.localeCompare(b.prompt, undefined, { sensitivity: 'base' }) || b.id.localeCompare(a.id);
+    case 'name-desc':
+      return b.prompt.localeCompare(a.prompt, undefined, { sensitivity: 'base' }) || b.id.localeCompare(a.id);
+    default:
+      return b.id.localeCompare(a.id);
+  }
+};
+
+/** The creations matching every filter, in the chosen order. Each search word has to appear somewhere. */
+export const filterCreations = (creations: CreationRecord[], filters: GalleryFilters): CreationRecord[] => {
+  const words = normalize(filters.query).split(/\s+/).filter(Boolean);
+  return creations
+    .filter(creation =>
+      (!filters.favoritesOnly || creation.favorite)
+      && (!filters.tag || (creation.tags ?? []).includes(filters.tag))
+      && (!filters.styleId || styleOf(creation) === filters.styleId)
+      && (!filters.source || sourceOf(creation) === filters.source)
+      && (words.length === 0 || words.every(word => searchTextOf(creation).includes(word))))
+    .sort(compareCreations(filters.sort));
+};
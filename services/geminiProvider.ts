@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ApiError, GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
+import type { ImageGenerationProvider, ImageGenerationRequest, ImageGenerationResponse, InlineImage } from './imageGenerationProvider';
+import { GenerationCancelledError, GenerationError, InvalidApiKeyError, NetworkError, QuotaExceededError, ServerError } from './generationErrors';
+
+const IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+const REQUEST_TIMEOUT_MS = 120_000;
+
+const base64ToGenerativePart = (base64: string, mimeType: string) => {
+    return {
+      inlineData: {
+        data: base64,
+        mimeType,
+      },
+    };
+};
+
+// Translates SDK and fetch failures into the app's error taxonomy.
+const toGenerationError = (error: unknown): GenerationError => {
+    if (error instanceof GenerationError) {
+        return error;
+    }
+    if (error instanceof ApiError) {
+        // Only a rejected key means a new one is needed; a 403 is a valid key without access.
+        if (error.status === 401 || (error.status === 400 && /API_KEY_INVALID|API key not valid/.test(error.message))) {
+            return new InvalidApiKeyError();
+        }
+        if (error.status === 403) {
+            return new GenerationError(`Your API key isn't allowed to make this request (403). The model may not be available in your region or to your project. ${error.message}`);
+        }
+        if (error.status === 429) {
+            return new QuotaExceededError();
+        }
+        if (error.status >= 500) {
+            return new ServerError(error.status);
+        }
+        return new GenerationError(`The model request failed (${error.status}). ${error.message}`);
+    }
+    if (error instanceof Error) {
+        if (error.name === 'AbortError' || error.name === 'TimeoutError' || /timed? ?out/i.test(error.message)) {
+            return new NetworkError(true);
+        }
+        if (error instanceof TypeError || /network|failed to fetch/i.test(error.message)) {
+            return new NetworkError(false);
+        }
+        return new GenerationError(error.message);
+    }
+    return new GenerationError('An unknown error occurred while contacting the model.');
+};
+
+export const createGeminiProvider = (apiKey: string): ImageGenerationProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generate = async (request: ImageGenerationRequest): Promise<ImageGenerationResponse> => {
+    const parts = [
+        ...request.images.map(image => base64ToGenerativePart(image.data, image.mimeType)),
+        { text: request.prompt },
+    ];
+
+    let response: GenerateContentResponse;
+    try {
+        response = await ai.models.generateContent({
+            model: IMAGE_MODEL,
+            contents: [{
+                role: "user",
+                parts: parts,
+            }],
+            config: {
+                responseModalities: [Modality.IMAGE, Modality.TEXT],
+                httpOptions: { timeout: REQUEST_TIMEOUT_MS },
+                abortSignal: request.signal,
+            },
+        });
+    } catch (error) {
+        if (request.signal?.aborted) {
+            throw new GenerationCancelledError();
+        }
+        throw toGenerationError(error);
+    }
+
+    const candidate = response.candidates?.[0];
+    const responseParts = candidate?.content?.parts ?? [];
+
+    const images: InlineImage[] = responseParts
+        .filter(p => p.inlineData?.data)
+        .map(p => ({ data: p.inlineData!.data!, mimeType: p.inlineData!.mimeType ?? 'image/png' }));
+    const text = responseParts.find(p => p.text)?.text ?? null;
+
+    if (images.length === 0) {
+        console.error("No image part found in response from image generation model", response);
+    }
+
+    return {
+        images,
+        text,
+        finishReason: candidate?.finishReason,
+        promptFeedback: response.promptFeedback && {
+            blockReason: response.promptFeedback.blockReason,
+            blockReasonMessage: response.promptFeedback.blockReasonMessage,
+        },
+    };
+  };
+
+  return { id: 'gemini', label: 'Gemini', generate };
+};
\ No newline at end of file
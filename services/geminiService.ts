@@ -5,99 +5,362 @@
 
 
 
-import { GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
-import { Frame } from "../types";
+import { Frame, GridLayout, LoopMode } from "../types";
+import { ImageGenerationProvider, ImageGenerationResponse, InlineImage } from "./imageGenerationProvider";
+import {
+    GenerationCancelledError,
+    GenerationError,
+    NoImageReturnedError,
+    SafetyBlockedError,
+    SpriteSheetValidationError,
+    isRetryableError,
+    isSafetyFinishReason,
+} from "./generationErrors";
+import { validateSpriteSheet } from "./spriteSheetValidation";
+import { GenerationStage, ProgressCallback } from "./generationProgress";
+import { canvasToInlineImage, loadInlineImage } from "./imageAnalysis";
+import { DEFAULT_GRID, frameCountOf } from "./frameLayout";
+import { AnimationMetadata, MetadataSources, parseAnimationMetadata } from "./animationMetadata";
+import { detectFrameLayout } from "./gridDetection";
+import { buildFrameRedrawInstruction, buildRefinementInstruction } from "../prompts";
 
 export interface AnimationAssets {
   imageData: { data: string, mimeType: string };
   frames: Frame[];
   frameDuration: number;
+  /** Per-frame timing in ms, one entry per frame in `frames`. Falls back to `frameDuration` when absent. */
+  frameDurations?: number[];
+  /** Missing on creations saved before the grid was configurable; treat as `DEFAULT_GRID`. */
+  grid?: GridLayout;
+  /** Indices into `frames` in playback order; frames can repeat or be left out. Defaults to every frame in order. */
+  frameOrder?: number[];
+  loopMode?: LoopMode;
+  /** Meme caption suggested by the model. */
+  caption?: string;
+  /** Description of the animation for screen readers. */
+  altText?: string;
+  /** Whether each metadata value came from the model or a fallback. Missing on older creations. */
+  metadataSources?: MetadataSources;
 }
 
-const base64ToGenerativePart = (base64: string, mimeType: string) => {
+export interface RetryPolicy {
+  /** Total number of requests allowed, including the first one. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface GenerationOptions {
+  retry?: Partial<RetryPolicy>;
+  /** Reject sheets that fail the quality gate and try again. Defaults to true. */
+  validate?: boolean;
+  signal?: AbortSignal;
+  /** The cell layout the prompt asked for. Defaults to `DEFAULT_GRID`. */
+  grid?: GridLayout;
+  /** Used when the model doesn't say how long each frame should last, e.g. the chosen style's default. */
+  defaultFrameDuration?: number;
+}
+
+// Used when neither the model nor the caller gives a frame duration.
+const DEFAULT_FRAME_DURATION = 120;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+};
+
+const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new GenerationCancelledError();
+  }
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GenerationCancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Exponential backoff with a little jitter so parallel clients don't retry in lockstep.
+const backoffDelay = (attempt: number, policy: RetryPolicy): number =>
+  Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1)) + Math.random() * 250;
+
+/** Returns the first image in a response, or throws the error that explains why there isn't one. */
+const extractImage = (response: ImageGenerationResponse): InlineImage => {
+    const diagnostics = { finishReason: response.finishReason, promptFeedback: response.promptFeedback };
+
+    if (response.promptFeedback?.blockReason) {
+        throw new SafetyBlockedError(response.promptFeedback.blockReason, diagnostics);
+    }
+
+    const imagePart = response.images[0];
+    if (!imagePart?.data) {
+        if (isSafetyFinishReason(response.finishReason)) {
+            throw new SafetyBlockedError(response.finishReason!, diagnostics);
+        }
+        throw new NoImageReturnedError(response.text, diagnostics);
+    }
+    return { data: imagePart.data, mimeType: imagePart.mimeType };
+};
+
+/**
+ * Runs `run` until it succeeds, backing off between retryable failures.
+ * Cancellation always wins, and unknown errors are wrapped in a `GenerationError`.
+ */
+const withRetry = async <T>(
+    policy: RetryPolicy,
+    signal: AbortSignal | undefined,
+    run: (attempt: number) => Promise<T>,
+    onRetry: (error: GenerationError, attempt: number, delay: number) => void
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      throwIfCancelled(signal);
+      return await run(attempt);
+    } catch (error) {
+      if (error instanceof GenerationCancelledError || signal?.aborted) {
+          throw new GenerationCancelledError();
+      }
+      console.error(`Error during asset generation (attempt ${attempt}):`, error);
+      if (isRetryableError(error) && attempt < policy.maxAttempts) {
+          const delay = backoffDelay(attempt, policy);
+          onRetry(error as GenerationError, attempt, delay);
+          await sleep(delay, signal);
+          continue;
+      }
+      // Providers already classify their failures; anything else becomes a generic generation error.
+      if (error instanceof GenerationError) {
+          throw error;
+      }
+      throw new GenerationError(`Failed to generate animation. ${error instanceof Error ? error.message : ''}`);
+    }
+  }
+};
+
+const requestSpriteSheet = async (
+    provider: ImageGenerationProvider,
+    images: InlineImage[],
+    imagePrompt: string,
+    grid: GridLayout,
+    validate: boolean,
+    metadataFallback: Pick<AnimationMetadata, 'frameDuration'> & Partial<AnimationMetadata>,
+    report: (stage: GenerationStage, message: string) => void,
+    signal?: AbortSignal
+): Promise<AnimationAssets> => {
+    const uploadBytes = images.reduce((total, image) => total + Math.ceil(image.data.length * 0.75), 0);
+    report('upload', uploadBytes > 0 ? `Sending ${Math.round(uploadBytes / 1024)} KB to ${provider.label}...` : `Sending prompt to ${provider.label}...`);
+    const request = provider.generate({ prompt: imagePrompt, images, layout: grid, signal });
+    report('model', 'Generating sprite sheet...');
+    const response = await request;
+    throwIfCancelled(signal);
+
+    report('parse', 'Reading the response...');
+    const imageData = extractImage(response);
+    const { metadata, sources, issues } = parseAnimationMetadata(response.text, frameCountOf(grid), metadataFallback);
+    if (issues.length > 0) {
+        console.warn('Some animation metadata from the model was unusable; using fallbacks.', issues);
+    }
+    const sheet = await loadInlineImage(imageData);
+    throwIfCancelled(signal);
+
+    if (validate) {
+        report('validate', 'Checking the sprite sheet...');
+        const validation = validateSpriteSheet(sheet, grid);
+        if (!validation.isAcceptable) {
+            throw new SpriteSheetValidationError(validation.issues);
+        }
+    }
+
+    report('slice', 'Slicing frames...');
+    const { frames, method } = detectFrameLayout(sheet, grid);
+    report('slice', method === 'detected' ? 'Slicing frames along the detected grid...' : 'Slicing frames on an even grid...');
+
     return {
-      inlineData: {
-        data: base64,
-        mimeType,
-      },
+        imageData,
+        frames,
+        frameDuration: metadata.frameDuration,
+        frameDurations: metadata.frameDurations,
+        loopMode: metadata.loopType,
+        caption: metadata.caption,
+        altText: metadata.altText,
+        metadataSources: sources,
+        grid,
     };
 };
 
 export const generateAnimationAssets = async (
-    apiKey: string,
+    provider: ImageGenerationProvider,
     base64UserImage: string | null,
     mimeType: string | null,
     imagePrompt: string,
-    onProgress: (message: string) => void
+    onProgress: ProgressCallback,
+    options: GenerationOptions = {}
 ): Promise<AnimationAssets | null> => {
-  const ai = new GoogleGenAI({ apiKey });
-  const imageModel = 'gemini-2.5-flash-image-preview';
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  const validate = options.validate ?? true;
+  const grid = options.grid ?? DEFAULT_GRID;
+  const { signal } = options;
 
-  try {
-    const imageGenTextPart = { text: imagePrompt };
-    const parts = [];
+  const images: InlineImage[] = [];
+  if (base64UserImage && mimeType) {
+      images.push({ data: base64UserImage, mimeType });
+  }
 
-    if (base64UserImage && mimeType) {
-        const userImagePart = base64ToGenerativePart(base64UserImage, mimeType);
-        parts.push(userImagePart);
-    }
-    parts.push(imageGenTextPart);
-    
-    const imageGenResponse: GenerateContentResponse = await ai.models.generateContent({
-        model: imageModel,
-        contents: [{
-            role: "user",
-            parts: parts,
-        }],
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-
-    const responseParts = imageGenResponse.candidates?.[0]?.content?.parts;
-    if (!responseParts) {
-        throw new Error("Invalid response from model. No parts found.");
-    }
+  const reporterFor = (attempt: number) => (stage: GenerationStage, message: string) =>
+      onProgress({ stage, message, attempt, maxAttempts: policy.maxAttempts });
 
-    const imagePart = responseParts.find(p => p.inlineData);
-    if (!imagePart?.inlineData?.data) {
-        console.error("No image part found in response from image generation model", imageGenResponse);
-        const text = responseParts.find(p => p.text)?.text;
-        throw new Error(`Model did not return an image. Response: ${text ?? "<no text>"}`);
-    }
-    const imageData = { data: imagePart.inlineData.data, mimeType: imagePart.inlineData.mimeType };
-    
-    // Extract and parse frame duration from the text part
-    let frameDuration = 120; // Default fallback value
-    const textPart = responseParts.find(p => p.text);
-    if (textPart?.text) {
-        try {
-            // The model might return just the JSON, or text with JSON embedded.
-            // A simple regex to find a JSON-like string.
-            const jsonStringMatch = textPart.text.match(/{.*}/s);
-            if (jsonStringMatch) {
-                const parsed = JSON.parse(jsonStringMatch[0]);
-                if (parsed.frameDuration && typeof parsed.frameDuration === 'number') {
-                    frameDuration = parsed.frameDuration;
-                }
-            }
-        } catch (e) {
-            console.warn("Could not parse frame duration from model response. Using default.", e);
-        }
+  return withRetry(
+      policy,
+      signal,
+      attempt => requestSpriteSheet(provider, images, imagePrompt, grid, validate, { frameDuration: options.defaultFrameDuration ?? DEFAULT_FRAME_DURATION }, reporterFor(attempt), signal),
+      (error, attempt, delay) => reporterFor(attempt)('model', `${error.message} Retrying in ${Math.ceil(delay / 1000)}s...`)
+  );
+};
+
+export interface FrameRedrawOptions {
+  retry?: Partial<RetryPolicy>;
+  signal?: AbortSignal;
+}
+
+const cropFrame = (sheet: HTMLImageElement, frame: Frame): InlineImage => {
+    const canvas = document.createElement('canvas');
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    canvas.getContext('2d')?.drawImage(sheet, frame.x, frame.y, frame.width, frame.height, 0, 0, frame.width, frame.height);
+    return canvasToInlineImage(canvas);
+};
+
+const outlineFrame = (sheet: HTMLImageElement, frame: Frame): InlineImage => {
+    const canvas = document.createElement('canvas');
+    canvas.width = sheet.naturalWidth;
+    canvas.height = sheet.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+        ctx.drawImage(sheet, 0, 0);
+        ctx.strokeStyle = '#ff0000';
+        ctx.lineWidth = Math.max(4, Math.round(sheet.naturalWidth / 128));
+        ctx.strokeRect(frame.x, frame.y, frame.width, frame.height);
     }
+    return canvasToInlineImage(canvas);
+};
 
-    return { imageData, frames: [], frameDuration };
-  } catch (error) {
-    console.error("Error during asset generation:", error);
-    // Rethrow a more user-friendly error to be caught by the UI
-    if (error instanceof Error) {
-        if (error.message.includes('API key not valid')) {
-            throw new Error('Your API key is not valid. Please check and try again.');
-        }
-        if (error.message.includes('quota')) {
-            throw new Error('You have exceeded your API quota. Please check your account.');
-        }
+/** Draws the replacement over one cell, cropping it to the cell's aspect ratio. */
+const compositeFrame = (sheet: HTMLImageElement, frame: Frame, replacement: HTMLImageElement): InlineImage => {
+    const canvas = document.createElement('canvas');
+    canvas.width = sheet.naturalWidth;
+    canvas.height = sheet.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new GenerationError('Could not get canvas context to update the sprite sheet.');
     }
-    throw new Error(`Failed to generate animation. ${error instanceof Error ? error.message : ''}`);
+    ctx.drawImage(sheet, 0, 0);
+    const scale = Math.max(frame.width / replacement.naturalWidth, frame.height / replacement.naturalHeight);
+    const sourceWidth = frame.width / scale;
+    const sourceHeight = frame.height / scale;
+    ctx.drawImage(
+        replacement,
+        (replacement.naturalWidth - sourceWidth) / 2, (replacement.naturalHeight - sourceHeight) / 2, sourceWidth, sourceHeight,
+        frame.x, frame.y, frame.width, frame.height
+    );
+    return canvasToInlineImage(canvas);
+};
+
+/**
+ * Asks the model to redraw a single cell of an existing sprite sheet and
+ * composites the result back in. Everything else about the assets is kept.
+ */
+export const regenerateFrame = async (
+    provider: ImageGenerationProvider,
+    assets: AnimationAssets,
+    frameIndex: number,
+    storyPrompt: string,
+    options: FrameRedrawOptions = {}
+): Promise<AnimationAssets> => {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  const { signal } = options;
+  const grid = assets.grid ?? DEFAULT_GRID;
+  const sheet = await loadInlineImage(assets.imageData);
+  const frames = assets.frames.length > 0 ? assets.frames : detectFrameLayout(sheet, grid).frames;
+  const target = frames[frameIndex];
+  if (!target) {
+      throw new GenerationError(`Frame ${frameIndex + 1} does not exist in this sprite sheet.`);
   }
-};
\ No newline at end of file
+
+  // The animation loops, so the first frame's predecessor is the last one.
+  const previous = frames[(frameIndex - 1 + frames.length) % frames.length];
+  const next = frames[(frameIndex + 1) % frames.length];
+  const images = [outlineFrame(sheet, target), cropFrame(sheet, previous), cropFrame(sheet, next)];
+  const prompt = buildFrameRedrawInstruction(storyPrompt, frameIndex, grid);
+
+  return withRetry(
+      policy,
+      signal,
+      async () => {
+        const response = await provider.generate({ prompt, images, layout: { columns: 1, rows: 1 }, signal });
+        throwIfCancelled(signal);
+        const replacement = await loadInlineImage(extractImage(response));
+        return { ...assets, frames, imageData: compositeFrame(sheet, target, replacement) };
+      },
+      (error, attempt, delay) => console.warn(`Frame redraw failed (attempt ${attempt}), retrying in ${Math.round(delay)}ms:`, error.message)
+  );
+};
+export interface RefinementRequest {
+  previous: AnimationAssets;
+  /** The photo the animation was first made from, when it's still available. */
+  referenceImage?: InlineImage | null;
+  storyPrompt: string;
+  /** Instructions from earlier turns, oldest first. */
+  history: string[];
+  instruction: string;
+}
+
+/**
+ * Runs one refinement turn: the previous sheet, the reference photo and the
+ * conversation so far go back to the model, which returns a revised sheet.
+ * Edits the user made to the frame order and loop mode carry over.
+ */
+export const refineAnimationAssets = async (
+    provider: ImageGenerationProvider,
+    request: RefinementRequest,
+    onProgress: ProgressCallback,
+    options: Omit<GenerationOptions, 'grid' | 'defaultFrameDuration'> = {}
+): Promise<AnimationAssets> => {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  const validate = options.validate ?? true;
+  const { previous, referenceImage, storyPrompt, history, instruction } = request;
+  const { signal } = options;
+  const grid = previous.grid ?? DEFAULT_GRID;
+
+  const images: InlineImage[] = [previous.imageData];
+  if (referenceImage) {
+      images.push(referenceImage);
+  }
+  const prompt = buildRefinementInstruction(storyPrompt, history, instruction, grid, !!referenceImage);
+  // A refinement that leaves out some metadata keeps the previous version's values.
+  const metadataFallback = {
+      frameDuration: previous.frameDuration || DEFAULT_FRAME_DURATION,
+      loopType: previous.loopMode,
+      caption: previous.caption,
+      altText: previous.altText,
+  };
+  const reporterFor = (attempt: number) => (stage: GenerationStage, message: string) =>
+      onProgress({ stage, message, attempt, maxAttempts: policy.maxAttempts });
+
+  const refined = await withRetry(
+      policy,
+      signal,
+      attempt => requestSpriteSheet(provider, images, prompt, grid, validate, metadataFallback, reporterFor(attempt), signal),
+      (error, attempt, delay) => reporterFor(attempt)('model', `${error.message} Retrying in ${Math.ceil(delay / 1000)}s...`)
+  );
+  // The user's own sequence edits win over the model's suggested loop type.
+  return { ...refined, frameOrder: previous.frameOrder, loopMode: previous.loopMode ?? refined.loopMode };
+};
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { SpriteSheetIssue } from './spriteSheetValidation';
+
+export interface PromptFeedback {
+  blockReason?: string;
+  blockReasonMessage?: string;
+}
+
+/** Details copied from the model response that help explain a failure. */
+export interface GenerationDiagnostics {
+  finishReason?: string;
+  promptFeedback?: PromptFeedback;
+}
+
+/** Base class for every failure surfaced by `generateAnimationAssets`. */
+export class GenerationError extends Error {
+  readonly finishReason?: string;
+  readonly promptFeedback?: PromptFeedback;
+
+  constructor(message: string, diagnostics: GenerationDiagnostics = {}) {
+    super(message);
+    this.name = 'GenerationError';
+    this.finishReason = diagnostics.finishReason;
+    this.promptFeedback = diagnostics.promptFeedback;
+  }
+}
+
+export class InvalidApiKeyError extends GenerationError {
+  constructor(message = 'Your API key is not valid. Please check and try again.') {
+    super(message);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+export class QuotaExceededError extends GenerationError {
+  constructor(message = 'You have exceeded your API quota or rate limit. Please wait a moment or check your account.') {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class SafetyBlockedError extends GenerationError {
+  /** The `blockReason` from prompt feedback, or the candidate's `finishReason`. */
+  readonly blockReason: string;
+
+  constructor(blockReason: string, diagnostics: GenerationDiagnostics = {}) {
+    super(`The request was blocked by the model's safety filters (${blockReason}).`, diagnostics);
+    this.name = 'SafetyBlockedError';
+    this.blockReason = blockReason;
+  }
+}
+
+export class NoImageReturnedError extends GenerationError {
+  /** Any text the model sent back instead of an image. */
+  readonly responseText: string | null;
+
+  constructor(responseText: string | null, diagnostics: GenerationDiagnostics = {}) {
+    super(`Model did not return an image. Response: ${responseText ?? '<no text>'}`, diagnostics);
+    this.name = 'NoImageReturnedError';
+    this.responseText = responseText;
+  }
+}
+
+export class NetworkError extends GenerationError {
+  readonly isTimeout: boolean;
+
+  constructor(isTimeout: boolean, message?: string) {
+    super(message ?? (isTimeout
+      ? 'The request to the model timed out.'
+      : 'Could not reach the model. Please check your internet connection.'));
+    this.name = 'NetworkError';
+    this.isTimeout = isTimeout;
+  }
+}
+
+export class ServerError extends GenerationError {
+  readonly status: number;
+
+  constructor(status: number, message?: string) {
+    super(message ?? `The model service had a problem (${status}). Please try again shortly.`);
+    this.name = 'ServerError';
+    this.status = status;
+  }
+}
+
+export class SpriteSheetValidationError extends GenerationError {
+  readonly issues: SpriteSheetIssue[];
+
+  constructor(issues: SpriteSheetIssue[]) {
+    super(`The sprite sheet failed quality checks: ${issues.map(issue => issue.message).join(' ')}`);
+    this.name = 'SpriteSheetValidationError';
+    this.issues = issues;
+  }
+}
+
+export class GenerationCancelledError extends GenerationError {
+  constructor() {
+    super('Generation was cancelled.');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+/** Failures that are worth another attempt without any change from the user. */
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof QuotaExceededError
+  || error instanceof ServerError
+  || error instanceof NoImageReturnedError
+  || error instanceof SpriteSheetValidationError;
+
+// Finish reasons that mean the candidate was withheld for policy reasons.
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+export const isSafetyFinishReason = (finishReason: string | undefined): boolean =>
+  !!finishReason && SAFETY_FINISH_REASONS.includes(finishReason);
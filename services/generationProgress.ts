@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type GenerationStage = 'resize' | 'upload' | 'model' | 'parse' | 'validate' | 'slice';
+
+/** Stages in the order a generation moves through them. */
+export const GENERATION_STAGES: { id: GenerationStage; label: string }[] = [
+  { id: 'resize', label: 'Optimizing image' },
+  { id: 'upload', label: 'Uploading' },
+  { id: 'model', label: 'Drawing sprite sheet' },
+  { id: 'parse', label: 'Reading response' },
+  { id: 'validate', label: 'Checking quality' },
+  { id: 'slice', label: 'Slicing frames' },
+];
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  message: string;
+  attempt: number;
+  maxAttempts: number;
+}
+
+export type ProgressCallback = (progress: GenerationProgress) => void;
+
+export const stageIndex = (stage: GenerationStage): number =>
+  GENERATION_STAGES.findIndex(s => s.id === stage);
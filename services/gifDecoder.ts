@@ -0,0 +1,267 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A self-contained animated GIF decoder, the counterpart of gifEncoder. It
+ * composites every frame onto the logical screen the way browsers do, honouring
+ * frame offsets, transparency and the disposal methods.
+ */
+
+export interface DecodedGifFrame {
+  /** RGBA pixels of the whole logical screen, as in ImageData. */
+  data: Uint8ClampedArray;
+  /** How long the frame shows, in milliseconds. */
+  delay: number;
+}
+
+export interface DecodedGif {
+  width: number;
+  height: number;
+  frames: DecodedGifFrame[];
+  /** Times the animation repeats; 0 loops forever and `null` means it has no loop extension and plays once. */
+  loopCount: number | null;
+  /** True when decoding stopped at `maxFrames` before the end of the file. */
+  truncated: boolean;
+}
+
+const MAX_CODE = 4095; // GIF LZW codes are at most 12 bits
+// Browsers play delays under 20ms at 100ms, so imports keep the timing people saw.
+const MIN_DELAY_CS = 2;
+const SLOW_DELAY_MS = 100;
+
+class ByteReader {
+  position = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  get remaining(): number {
+    return this.data.length - this.position;
+  }
+
+  byte(): number {
+    if (this.position >= this.data.length) throw new Error('The GIF file is cut short.');
+    return this.data[this.position++];
+  }
+
+  word(): number {
+    return this.byte() | (this.byte() << 8);
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.position + length > this.data.length) throw new Error('The GIF file is cut short.');
+    const slice = this.data.subarray(this.position, this.position + length);
+    this.position += length;
+    return slice;
+  }
+
+  ascii(length: number): string {
+    return String.fromCharCode(...this.bytes(length));
+  }
+
+  /** Reads a chain of data sub-blocks up to the zero-length terminator. */
+  subBlocks(): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    for (let size = this.byte(); size > 0; size = this.byte()) {
+      const chunk = this.bytes(size);
+      chunks.push(chunk);
+      total += size;
+    }
+    const joined = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+      joined.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return joined;
+  }
+}
+
+const readColorTable = (reader: ByteReader, packed: number): Uint8Array => reader.bytes(3 * (1 << ((packed & 7) + 1)));
+
+/** Expands LZW-compressed image data into one palette index per pixel. */
+const decompress = (minCodeSize: number, data: Uint8Array, pixelCount: number): Uint8Array => {
+  const pixels = new Uint8Array(pixelCount);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const prefix = new Uint16Array(MAX_CODE + 1);
+  const suffix = new Uint8Array(MAX_CODE + 1);
+  const stack = new Uint8Array(MAX_CODE + 2);
+  for (let code = 0; code < clearCode; code++) suffix[code] = code;
+
+  let codeSize = minCodeSize + 1;
+  let codeMask = (1 << codeSize) - 1;
+  let nextCode = clearCode + 2;
+  let previous = -1;
+  let first = 0;
+  let bits = 0;
+  let buffer = 0;
+  let position = 0;
+  let written = 0;
+
+  while (written < pixelCount) {
+    while (bits < codeSize && position < data.length) {
+      buffer |= data[position++] << bits;
+      bits += 8;
+    }
+    if (bits < codeSize) break;
+    const code = buffer & codeMask;
+    buffer >>= codeSize;
+    bits -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      codeMask = (1 << codeSize) - 1;
+      nextCode = clearCode + 2;
+      previous = -1;
+      continue;
+    }
+    if (code === endCode) break;
+    if (previous === -1) {
+      if (code >= clearCode) break; // a valid stream starts with a literal
+      pixels[written++] = code;
+      previous = first = code;
+      continue;
+    }
+
+    let top = 0;
+    let current = code;
+    if (current >= nextCode) {
+      // The code being defined right now: the previous string plus its own first byte.
+      stack[top++] = first;
+      current = previous;
+    }
+    while (current >= clearCode) {
+      stack[top++] = suffix[current];
+      current = prefix[current];
+    }
+    first = suffix[current];
+    stack[top++] = first;
+
+    if (nextCode <= MAX_CODE) {
+      prefix[nextCode] = previous;
+      suffix[nextCode] = first;
+      nextCode++;
+      if ((nextCode & codeMask) === 0 && nextCode <= MAX_CODE) {
+        codeSize++;
+        codeMask = (1 << codeSize) - 1;
+      }
+    }
+    previous = code;
+    while (top > 0 && written < pixelCount) pixels[written++] = stack[--top];
+  }
+  return pixels;
+};
+
+/** Maps interlaced rows (every 8th from 0, every 8th from 4, every 4th from 2, every 2nd from 1) back into order. */
+const deinterlace = (pixels: Uint8Array, width: number, height: number): Uint8Array => {
+  const ordered = new Uint8Array(pixels.length);
+  let sourceRow = 0;
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let row = start; row < height; row += step) {
+      ordered.set(pixels.subarray(sourceRow * width, (sourceRow + 1) * width), row * width);
+      sourceRow++;
+    }
+  }
+  return ordered;
+};
+
+/**
+ * Decodes every frame of a GIF. Stops after `maxFrames` frames, so very long
+ * GIFs don't have to be composited in full just to be cut down afterwards.
+ */
+export const decodeGif = (bytes: Uint8Array, maxFrames = Infinity): DecodedGif => {
+  const reader = new ByteReader(bytes);
+  const signature = reader.ascii(6);
+  if (signature !== 'GIF87a' && signature !== 'GIF89a') {
+    throw new Error("This file isn't a GIF.");
+  }
+  const width = reader.word();
+  const height = reader.word();
+  const screenPacked = reader.byte();
+  reader.byte(); // background colour index; browsers show the page behind instead
+  reader.byte(); // pixel aspect ratio
+  const globalColors = screenPacked & 0x80 ? readColorTable(reader, screenPacked) : null;
+  if (width === 0 || height === 0) throw new Error('The GIF has no size.');
+
+  const screen = new Uint8ClampedArray(width * height * 4);
+  const frames: DecodedGifFrame[] = [];
+  let loopCount: number | null = null;
+  let delayCs = 0;
+  let disposal = 0;
+  let transparentIndex = -1;
+
+  while (reader.remaining > 0 && frames.length < maxFrames) {
+    const introducer = reader.byte();
+    if (introducer === 0x3b) break; // trailer
+
+    if (introducer === 0x21) {
+      const label = reader.byte();
+      if (label === 0xf9) {
+        const block = reader.subBlocks();
+        disposal = (block[0] >> 2) & 7;
+        delayCs = block[1] | (block[2] << 8);
+        transparentIndex = block[0] & 1 ? block[3] : -1;
+      } else if (label === 0xff) {
+        const identifier = reader.subBlocks();
+        // The identifier is the first sub-block; NETSCAPE2.0's loop count follows it.
+        const name = String.fromCharCode(...identifier.subarray(0, 11));
+        if ((name === 'NETSCAPE2.0' || name === 'ANIMEXTS1.0') && identifier.length >= 14 && identifier[11] === 1) {
+          loopCount = identifier[12] | (identifier[13] << 8);
+        }
+      } else {
+        reader.subBlocks();
+      }
+      continue;
+    }
+
+    if (introducer !== 0x2c) throw new Error('The GIF file is damaged.');
+    const left = reader.word();
+    const top = reader.word();
+    const frameWidth = reader.word();
+    const frameHeight = reader.word();
+    const imagePacked = reader.byte();
+    const colors = imagePacked & 0x80 ? readColorTable(reader, imagePacked) : globalColors;
+    if (!colors) throw new Error('The GIF has a frame without colours.');
+    const minCodeSize = reader.byte();
+    const compressed = reader.subBlocks();
+    let indices = decompress(minCodeSize, compressed, frameWidth * frameHeight);
+    if (imagePacked & 0x40) indices = deinterlace(indices, frameWidth, frameHeight);
+
+    const restore = disposal === 3 ? screen.slice() : null;
+    for (let y = 0; y < frameHeight; y++) {
+      const screenY = top + y;
+      if (screenY >= height) break;
+      for (let x = 0; x < frameWidth; x++) {
+        const screenX = left + x;
+        if (screenX >= width) break;
+        const index = indices[y * frameWidth + x];
+        if (index === transparentIndex || index * 3 >= colors.length) continue;
+        const offset = (screenY * width + screenX) * 4;
+        screen[offset] = colors[index * 3];
+        screen[offset + 1] = colors[index * 3 + 1];
+        screen[offset + 2] = colors[index * 3 + 2];
+        screen[offset + 3] = 255;
+      }
+    }
+    frames.push({ data: screen.slice(), delay: delayCs < MIN_DELAY_CS ? SLOW_DELAY_MS : delayCs * 10 });
+
+    if (disposal === 2) {
+      for (let y = top; y < Math.min(top + frameHeight, height); y++) {
+        screen.fill(0, (y * width + left) * 4, (y * width + Math.min(left + frameWidth, width)) * 4);
+      }
+    } else if (restore) {
+      screen.set(restore);
+    }
+    // Graphic control settings only apply to the image right after them.
+    delayCs = 0;
+    disposal = 0;
+    transparentIndex = -1;
+  }
+
+  if (frames.length === 0) throw new Error('The GIF has no frames.');
+  // Anything left besides the trailer byte is more frames.
+  return { width, height, frames, loopCount, truncated: frames.length >= maxFrames && reader.remaining > 1 };
+};
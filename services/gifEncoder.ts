@@ -0,0 +1,360 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A self-contained GIF89a encoder: median-cut palette quantization, optional
+ * Floyd–Steinberg dithering and LZW compression. It only touches typed arrays,
+ * so it runs the same in a worker as on the main thread.
+ */
+
+export interface GifFrameData {
+  /** RGBA pixels, as in ImageData. */
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+  /** How long the frame shows, in milliseconds. */
+  delay: number;
+}
+
+/** One palette shared by every frame, or a palette fitted to each frame. */
+export type GifPaletteMode = 'global' | 'per-frame';
+
+export interface GifEncodeOptions {
+  /** Palette size including the transparent slot, from 2 to 256. */
+  maxColors: number;
+  palette: GifPaletteMode;
+  dither: boolean;
+  /** Pixels that are mostly transparent become fully transparent instead of being matched to a colour. */
+  transparent: boolean;
+  /** Loop forever when true; play once when false. */
+  loop: boolean;
+}
+
+const ALPHA_THRESHOLD = 128;
+const HISTOGRAM_SIZE = 1 << 15; // 5 bits per channel
+const MAX_CODE = 4095; // GIF LZW codes are at most 12 bits
+// Browsers stretch delays under 20ms to 100ms, so never write a shorter one.
+const MIN_DELAY_CS = 2;
+
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private length = 0;
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = value;
+  }
+
+  word(value: number) {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  ascii(text: string) {
+    for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+  }
+
+  result(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+const bucketOf = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+const bucketChannel = (bucket: number, channel: number) => (bucket >> (10 - channel * 5)) & 31;
+
+const addToHistogram = (histogram: Uint32Array, frame: GifFrameData, transparent: boolean) => {
+  const { data } = frame;
+  for (let i = 0; i < data.length; i += 4) {
+    if (transparent && data[i + 3] < ALPHA_THRESHOLD) continue;
+    histogram[bucketOf(data[i], data[i + 1], data[i + 2])]++;
+  }
+};
+
+/**
+ * Splits colour space into at most `maxColors` boxes, always cutting the box
+ * with the most pixels times the widest channel range at its weighted median.
+ * Returns the palette as flat RGB triples.
+ */
+const medianCut = (histogram: Uint32Array, maxColors: number): Uint8Array => {
+  const used: number[] = [];
+  for (let bucket = 0; bucket < HISTOGRAM_SIZE; bucket++) {
+    if (histogram[bucket] > 0) used.push(bucket);
+  }
+  if (used.length === 0) return new Uint8Array(3);
+
+  const boxes: number[][] = [used];
+  while (boxes.length < maxColors) {
+    let best = -1;
+    let bestScore = 0;
+    let bestChannel = 0;
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      let count = 0;
+      const min = [31, 31, 31];
+      const max = [0, 0, 0];
+      box.forEach(bucket => {
+        count += histogram[bucket];
+        for (let c = 0; c < 3; c++) {
+          const value = bucketChannel(bucket, c);
+          if (value < min[c]) min[c] = value;
+          if (value > max[c]) max[c] = value;
+        }
+      });
+      const ranges = [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+      const channel = ranges.indexOf(Math.max(...ranges));
+      const score = ranges[channel] * count;
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+        bestChannel = channel;
+      }
+    });
+    if (best < 0) break;
+
+    const box = boxes[best].sort((a, b) => bucketChannel(a, bestChannel) - bucketChannel(b, bestChannel));
+    const total = box.reduce((sum, bucket) => sum + histogram[bucket], 0);
+    let running = 0;
+    let split = 1;
+    for (; split < box.length - 1; split++) {
+      running += histogram[box[split - 1]];
+      if (running >= total / 2) break;
+    }
+    boxes.splice(best, 1, box.slice(0, split), box.slice(split));
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, index) => {
+    let count = 0;
+    const sum = [0, 0, 0];
+    box.forEach(bucket => {
+      const weight = histogram[bucket];
+      count += weight;
+      for (let c = 0; c < 3; c++) sum[c] += ((bucketChannel(bucket, c) << 3) | 4) * weight;
+    });
+    for (let c = 0; c < 3; c++) palette[index * 3 + c] = Math.round(sum[c] / count);
+  });
+  return palette;
+};
+
+const buildPalette = (frames: GifFrameData[], maxColors: number, transparent: boolean): Uint8Array => {
+  const histogram = new Uint32Array(HISTOGRAM_SIZE);
+  frames.forEach(frame => addToHistogram(histogram, frame, transparent));
+  return medianCut(histogram, maxColors);
+};
+
+// Nearest palette entry, cached per 15-bit colour since neighbouring colours nearly always agree.
+const createColorLookup = (palette: Uint8Array) => {
+  const cache = new Int16Array(HISTOGRAM_SIZE).fill(-1);
+  const count = palette.length / 3;
+  return (r: number, g: number, b: number): number => {
+    const key = bucketOf(r, g, b);
+    if (cache[key] >= 0) return cache[key];
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < count; i++) {
+      const dr = r - palette[i * 3];
+      const dg = g - palette[i * 3 + 1];
+      const db = b - palette[i * 3 + 2];
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+};
+
+const clampByte = (value: number) => value < 0 ? 0 : value > 255 ? 255 : value;
+
+/** Maps every pixel to a palette index, spreading the rounding error to later pixels when dithering. */
+const indexFrame = (frame: GifFrameData, palette: Uint8Array, dither: boolean, transparentIndex: number): Uint8Array => {
+  const { data, width, height } = frame;
+  const indices = new Uint8Array(width * height);
+  const lookup = createColorLookup(palette);
+  // Error carried into the current and next rows, with one spare pixel on each side.
+  let currentErrors = new Float32Array((width + 2) * 3);
+  let nextErrors = new Float32Array((width + 2) * 3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      const offset = pixel * 4;
+      if (transparentIndex >= 0 && data[offset + 3] < ALPHA_THRESHOLD) {
+        indices[pixel] = transparentIndex;
+        continue;
+      }
+      if (!dither) {
+        indices[pixel] = lookup(data[offset], data[offset + 1], data[offset + 2]);
+        continue;
+      }
+      const e = (x + 1) * 3;
+      const r = clampByte(data[offset] + currentErrors[e]);
+      const g = clampByte(data[offset + 1] + currentErrors[e + 1]);
+      const b = clampByte(data[offset + 2] + currentErrors[e + 2]);
+      const index = lookup(Math.round(r), Math.round(g), Math.round(b));
+      indices[pixel] = index;
+      const errors = [r - palette[index * 3], g - palette[index * 3 + 1], b - palette[index * 3 + 2]];
+      for (let c = 0; c < 3; c++) {
+        currentErrors[e + 3 + c] += errors[c] * 7 / 16;
+        nextErrors[e - 3 + c] += errors[c] * 3 / 16;
+        nextErrors[e + c] += errors[c] * 5 / 16;
+        nextErrors[e + 3 + c] += errors[c] / 16;
+      }
+    }
+    if (dither) {
+      [currentErrors, nextErrors] = [nextErrors, currentErrors];
+      nextErrors.fill(0);
+    }
+  }
+  return indices;
+};
+
+/** Smallest colour table exponent that fits `count` entries; GIF tables hold 2^n colours, n >= 1. */
+const tableBits = (count: number) => Math.max(1, Math.ceil(Math.log2(count)));
+
+const writeColorTable = (out: ByteWriter, palette: Uint8Array, bits: number) => {
+  out.bytes(palette);
+  for (let i = palette.length; i < (1 << bits) * 3; i++) out.byte(0);
+};
+
+/** Variable-width LZW, packed into the length-prefixed sub-blocks GIF expects. */
+const writeLzwData = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  out.byte(minCodeSize);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  const dictionary = new Map<number, number>();
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const pushByte = (value: number) => {
+    block[blockLength++] = value;
+    if (blockLength === 255) {
+      out.byte(255);
+      out.bytes(block);
+      blockLength = 0;
+    }
+  };
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      pushByte(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode > MAX_CODE) {
+      emit(clearCode);
+      dictionary.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      dictionary.set(key, nextCode++);
+    }
+    prefix = index;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) pushByte(bitBuffer & 0xff);
+  if (blockLength > 0) {
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+  }
+  out.byte(0);
+};
+
+/** Encodes the frames as one GIF. Every frame must be the size of the first. */
+export const encodeGif = (
+  frames: GifFrameData[],
+  options: GifEncodeOptions,
+  onProgress?: (fraction: number) => void
+): Uint8Array => {
+  if (frames.length === 0) throw new Error('There are no frames to encode.');
+  const { width, height } = frames[0];
+  const transparentSlots = options.transparent ? 1 : 0;
+  const colorLimit = Math.max(2, Math.min(256, Math.round(options.maxColors))) - transparentSlots;
+  const globalPalette = options.palette === 'global' ? buildPalette(frames, colorLimit, options.transparent) : null;
+
+  const out = new ByteWriter();
+  out.ascii('GIF89a');
+  out.word(width);
+  out.word(height);
+  if (globalPalette) {
+    const bits = tableBits(globalPalette.length / 3 + transparentSlots);
+    out.byte(0x80 | 0x70 | (bits - 1));
+    out.byte(0); // background colour index
+    out.byte(0); // pixel aspect ratio
+    writeColorTable(out, globalPalette, bits);
+  } else {
+    out.byte(0x70);
+    out.byte(0);
+    out.byte(0);
+  }
+
+  if (options.loop) {
+    // NETSCAPE2.0 application extension; a loop count of 0 repeats forever.
+    out.bytes([0x21, 0xff, 0x0b]);
+    out.ascii('NETSCAPE2.0');
+    out.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+  }
+
+  frames.forEach((frame, i) => {
+    const palette = globalPalette ?? buildPalette([frame], colorLimit, options.transparent);
+    const transparentIndex = options.transparent ? palette.length / 3 : -1;
+    const bits = tableBits(palette.length / 3 + transparentSlots);
+
+    // Graphic control extension. Transparent frames clear to the background so earlier frames don't show through.
+    out.bytes([0x21, 0xf9, 0x04]);
+    out.byte(((options.transparent ? 2 : 1) << 2) | (options.transparent ? 1 : 0));
+    out.word(Math.max(MIN_DELAY_CS, Math.round(frame.delay / 10)));
+    out.byte(Math.max(0, transparentIndex));
+    out.byte(0);
+
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(frame.width);
+    out.word(frame.height);
+    if (globalPalette) {
+      out.byte(0);
+    } else {
+      out.byte(0x80 | (bits - 1));
+      writeColorTable(out, palette, bits);
+    }
+
+    writeLzwData(out, indexFrame(frame, palette, options.dither, transparentIndex), Math.max(2, bits));
+    onProgress?.((i + 1) / frames.length);
+  });
+
+  out.byte(0x3b);
+  return out.result();
+};
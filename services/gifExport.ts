@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GifEncodeOptions, GifFrameData } from './gifEncoder';
+import type { GifWorkerRequest, GifWorkerResponse } from './gifWorker';
+
+export interface GifExportOptions extends GifEncodeOptions {
+  /** Width and height of the GIF in pixels. */
+  size: number;
+  /** When set, colours and then dimensions are lowered until the file is at most this many bytes. */
+  targetBytes?: number | null;
+}
+
+export interface GifExportResult {
+  blob: Blob;
+  /** The size the GIF was written at, which target-size mode may have lowered. */
+  size: number;
+  colors: number;
+  /** False when even the smallest attempt was over `targetBytes`. */
+  fitsTarget: boolean;
+}
+
+// Limits for target-size mode, so it gives up before the GIF becomes unrecognisable.
+const MAX_SIZE_ATTEMPTS = 6;
+const MIN_TARGET_COLORS = 32;
+const MIN_TARGET_SIZE = 64;
+
+/** Encodes in a fresh worker so the page stays responsive, then shuts the worker down. */
+const encodeInWorker = (frames: GifFrameData[], options: GifEncodeOptions, onProgress?: (fraction: number) => void): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./gifWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<GifWorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress?.(response.fraction);
+        return;
+      }
+      worker.terminate();
+      if (response.type === 'done') resolve(response.bytes);
+      else reject(new Error(response.message));
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'The GIF encoder stopped unexpectedly.'));
+    };
+    const request: GifWorkerRequest = { frames, options };
+    worker.postMessage(request, frames.map(frame => frame.data.buffer));
+  });
+
+const readFrames = (sources: CanvasImageSource[], durations: number[], size: number): GifFrameData[] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not create a canvas to read the GIF frames.');
+  return sources.map((source, i) => {
+    ctx.clearRect(0, 0, size, size);
+    ctx.drawImage(source, 0, 0, size, size);
+    return { data: ctx.getImageData(0, 0, size, size).data, width: size, height: size, delay: durations[i] };
+  });
+};
+
+/**
+ * Encodes the frames as a GIF. In target-size mode it re-encodes until the
+ * file fits: a file that's only a little too big loses colours first, and a
+ * much bigger one is scaled down, since the size grows with the pixel count.
+ * `onProgress` also reports which attempt is running.
+ */
+export const exportGif = async (
+  sources: CanvasImageSource[],
+  durations: number[],
+  options: GifExportOptions,
+  onProgress?: (fraction: number, attempt: number) => void
+): Promise<GifExportResult> => {
+  const { size: requestedSize, targetBytes, ...encodeOptions } = options;
+  let size = requestedSize;
+  let colors = encodeOptions.maxColors;
+
+  for (let attempt = 0; ; attempt++) {
+    const bytes = await encodeInWorker(
+      readFrames(sources, durations, size),
+      { ...encodeOptions, maxColors: colors },
+      fraction => onProgress?.(fraction, attempt)
+    );
+    const fitsTarget = !targetBytes || bytes.length <= targetBytes;
+    if (fitsTarget || attempt + 1 >= MAX_SIZE_ATTEMPTS || (size <= MIN_TARGET_SIZE && colors <= MIN_TARGET_COLORS)) {
+      return { blob: new Blob([bytes], { type: 'image/gif' }), size, colors, fitsTarget };
+    }
+    const ratio = targetBytes / bytes.length;
+    if ((ratio > 0.7 || size <= MIN_TARGET_SIZE) && colors > MIN_TARGET_COLORS) {
+      colors = Math.max(MIN_TARGET_COLORS, Math.floor(colors / 2));
+    } else {
+      size = Math.max(MIN_TARGET_SIZE, Math.floor(size * Math.sqrt(ratio) * 0.95));
+    }
+  }
+};
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GifEncodeOptions, GifFrameData, encodeGif } from './gifEncoder';
+
+export interface GifWorkerRequest {
+  frames: GifFrameData[];
+  options: GifEncodeOptions;
+}
+
+export type GifWorkerResponse =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; bytes: Uint8Array }
+  | { type: 'error'; message: string };
+
+const respond = (response: GifWorkerResponse, transfer: Transferable[] = []) => self.postMessage(response, { transfer });
+
+self.onmessage = (event: MessageEvent<GifWorkerRequest>) => {
+  try {
+    const bytes = encodeGif(event.data.frames, event.data.options, fraction => respond({ type: 'progress', fraction }));
+    respond({ type: 'done', bytes }, [bytes.buffer]);
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
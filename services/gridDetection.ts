@@ -0,0 +1,204 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Frame, GridLayout } from '../types';
+import { readPixels } from './imageAnalysis';
+import { createUniformFrameLayout } from './frameLayout';
+
+export interface FrameLayoutDetection {
+  frames: Frame[];
+  /** 0-1: how many of the expected seams were found with consistent cell sizes. */
+  confidence: number;
+  method: 'detected' | 'uniform';
+}
+
+const ANALYSIS_SIZE = 512;
+// A line counts as gutter when this much of it matches the background or is a flat separator.
+const GUTTER_THRESHOLD = 0.92;
+const BACKGROUND_TOLERANCE = 24;
+const SEPARATOR_MAX_STD_DEV = 10;
+// Seams may sit this fraction of a cell away from where an exact grid would put them.
+const SEAM_SEARCH_FRACTION = 0.2;
+// Detected cells may differ in size by at most this fraction before we stop trusting them.
+const CELL_SIZE_TOLERANCE = 0.12;
+// Extra trim (in sheet pixels) so anti-aliased separator edges don't leak into frames.
+const EDGE_PADDING = 2;
+
+interface Band {
+  start: number;
+  end: number; // exclusive
+}
+
+/** Estimates the background colour from the most common colour along the sheet border. */
+const estimateBackground = (imageData: ImageData): [number, number, number] => {
+  const { data, width, height } = imageData;
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += data[i];
+    bucket.g += data[i + 1];
+    bucket.b += data[i + 2];
+    buckets.set(key, bucket);
+  };
+  for (let x = 0; x < width; x++) {
+    sample(x, 0);
+    sample(x, height - 1);
+  }
+  for (let y = 0; y < height; y++) {
+    sample(0, y);
+    sample(width - 1, y);
+  }
+  let best = { count: 0, r: 255, g: 255, b: 255 };
+  buckets.forEach(bucket => {
+    if (bucket.count > best.count) best = bucket;
+  });
+  return best.count ? [best.r / best.count, best.g / best.count, best.b / best.count] : [255, 255, 255];
+};
+
+/**
+ * Scores every column (or row) by how gutter-like it is: the share of pixels
+ * matching the background colour, or how flat it is for drawn separator lines.
+ */
+const gutterProfile = (imageData: ImageData, background: [number, number, number], vertical: boolean): number[] => {
+  const { data, width, height } = imageData;
+  const length = vertical ? width : height;
+  const span = vertical ? height : width;
+  const profile: number[] = [];
+
+  for (let line = 0; line < length; line++) {
+    let backgroundCount = 0;
+    let sum = 0;
+    let sumSq = 0;
+    for (let offset = 0; offset < span; offset++) {
+      const x = vertical ? line : offset;
+      const y = vertical ? offset : line;
+      const i = (y * width + x) * 4;
+      const r = data[i], g = data[i + 1], b = data[i + 2];
+      if (Math.abs(r - background[0]) + Math.abs(g - background[1]) + Math.abs(b - background[2]) <= BACKGROUND_TOLERANCE * 3) {
+        backgroundCount++;
+      }
+      const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+      sum += luma;
+      sumSq += luma * luma;
+    }
+    const mean = sum / span;
+    const stdDev = Math.sqrt(Math.max(0, sumSq / span - mean * mean));
+    const flatness = stdDev <= SEPARATOR_MAX_STD_DEV ? 1 : 0;
+    profile.push(Math.max(backgroundCount / span, flatness));
+  }
+  return profile;
+};
+
+const findBands = (profile: number[]): Band[] => {
+  const bands: Band[] = [];
+  let start = -1;
+  profile.forEach((score, index) => {
+    if (score >= GUTTER_THRESHOLD) {
+      if (start < 0) start = index;
+    } else if (start >= 0) {
+      bands.push({ start, end: index });
+      start = -1;
+    }
+  });
+  if (start >= 0) bands.push({ start, end: profile.length });
+  return bands;
+};
+
+/**
+ * Works out cell boundaries along one axis. Returns `null` when any expected
+ * seam has no gutter near it.
+ */
+const detectAxis = (profile: number[], divisions: number): { cells: Band[]; found: number } | null => {
+  const length = profile.length;
+  const bands = findBands(profile);
+  const cellSize = length / divisions;
+  const leading = bands.find(band => band.start === 0);
+  const trailing = bands.find(band => band.end === length);
+
+  const boundaries: number[] = [leading ? leading.end : 0];
+  let found = 0;
+  for (let k = 1; k < divisions; k++) {
+    const expected = k * cellSize;
+    const candidates = bands.filter(band => band !== leading && band !== trailing
+      && Math.abs((band.start + band.end) / 2 - expected) <= cellSize * SEAM_SEARCH_FRACTION);
+    if (candidates.length === 0) {
+      return null;
+    }
+    const seam = candidates.reduce((best, band) =>
+      Math.abs((band.start + band.end) / 2 - expected) < Math.abs((best.start + best.end) / 2 - expected) ? band : best);
+    boundaries.push(seam.start, seam.end);
+    found++;
+  }
+  boundaries.push(trailing ? trailing.start : length);
+
+  const cells: Band[] = [];
+  for (let i = 0; i < boundaries.length; i += 2) {
+    cells.push({ start: boundaries[i], end: boundaries[i + 1] });
+  }
+  return { cells, found };
+};
+
+/**
+ * Finds the real cell boundaries of a sprite sheet from its content (gutters in
+ * the background colour, drawn separator lines, and their projection profiles)
+ * and returns equally sized frames centred in each cell. Falls back to the
+ * uniform grid whenever the detected layout is incomplete or inconsistent.
+ */
+export const detectFrameLayout = (img: HTMLImageElement, grid: GridLayout): FrameLayoutDetection => {
+  const { naturalWidth, naturalHeight } = img;
+  const uniform: FrameLayoutDetection = {
+    frames: createUniformFrameLayout(naturalWidth, naturalHeight, grid),
+    confidence: 0,
+    method: 'uniform',
+  };
+
+  try {
+    const imageData = readPixels(img, naturalWidth, naturalHeight, ANALYSIS_SIZE);
+    const background = estimateBackground(imageData);
+    const columns = detectAxis(gutterProfile(imageData, background, true), grid.columns);
+    const rows = detectAxis(gutterProfile(imageData, background, false), grid.rows);
+    if (!columns || !rows) {
+      return uniform;
+    }
+
+    const scaleX = naturalWidth / imageData.width;
+    const scaleY = naturalHeight / imageData.height;
+    const widths = columns.cells.map(cell => (cell.end - cell.start) * scaleX);
+    const heights = rows.cells.map(cell => (cell.end - cell.start) * scaleY);
+    const frameWidth = Math.floor(Math.min(...widths)) - EDGE_PADDING * 2;
+    const frameHeight = Math.floor(Math.min(...heights)) - EDGE_PADDING * 2;
+    const spread = (sizes: number[]) => (Math.max(...sizes) - Math.min(...sizes)) / Math.max(...sizes);
+    if (frameWidth <= 0 || frameHeight <= 0 || spread(widths) > CELL_SIZE_TOLERANCE || spread(heights) > CELL_SIZE_TOLERANCE) {
+      return uniform;
+    }
+
+    const frames: Frame[] = [];
+    rows.cells.forEach(row => {
+      columns.cells.forEach(column => {
+        const centreX = ((column.start + column.end) / 2) * scaleX;
+        const centreY = ((row.start + row.end) / 2) * scaleY;
+        frames.push({
+          x: Math.min(naturalWidth - frameWidth, Math.max(0, Math.round(centreX - frameWidth / 2))),
+          y: Math.min(naturalHeight - frameHeight, Math.max(0, Math.round(centreY - frameHeight / 2))),
+          width: frameWidth,
+          height: frameHeight,
+        });
+      });
+    });
+
+    const expectedSeams = grid.columns - 1 + grid.rows - 1;
+    return {
+      frames,
+      confidence: expectedSeams === 0 ? 1 : (columns.found + rows.found) / expectedSeams,
+      method: 'detected',
+    };
+  } catch (error) {
+    console.warn('Sprite sheet grid detection failed; using a uniform grid.', error);
+    return uniform;
+  }
+};
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { InlineImage } from './imageGenerationProvider';
+
+export const loadInlineImage = (image: InlineImage): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to decode the generated image.'));
+    img.src = `data:${image.mimeType};base64,${image.data}`;
+  });
+};
+
+/** Encodes a canvas as a base64 inline image, the format providers accept. */
+export const canvasToInlineImage = (canvas: HTMLCanvasElement, mimeType = 'image/png'): InlineImage => {
+  const dataUrl = canvas.toDataURL(mimeType);
+  return { data: dataUrl.slice(dataUrl.indexOf(',') + 1), mimeType };
+};
+
+/** Reads the pixels of an image, optionally downscaled to keep analysis cheap. */
+export const readPixels = (img: CanvasImageSource, width: number, height: number, maxSize = width): ImageData => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Could not get canvas context for image analysis.');
+  }
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/** Converts RGBA pixels into a flat luminance array (0-255). */
+export const toLuminance = (imageData: ImageData): Float32Array => {
+  const { data, width, height } = imageData;
+  const luma = new Float32Array(width * height);
+  for (let i = 0, p = 0; p < luma.length; i += 4, p++) {
+    luma[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return luma;
+};
+
+export interface RegionStats {
+  mean: number;
+  stdDev: number;
+}
+
+export const regionStats = (luma: Float32Array, stride: number, x: number, y: number, width: number, height: number): RegionStats => {
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let row = y; row < y + height; row++) {
+    for (let col = x; col < x + width; col++) {
+      const value = luma[row * stride + col];
+      sum += value;
+      sumSq += value * value;
+      count++;
+    }
+  }
+  if (count === 0) {
+    return { mean: 0, stdDev: 0 };
+  }
+  const mean = sum / count;
+  return { mean, stdDev: Math.sqrt(Math.max(0, sumSq / count - mean * mean)) };
+};
+
+/** Samples a region into a small fixed-size luminance thumbnail for cheap comparisons. */
+export const regionThumbnail = (luma: Float32Array, stride: number, x: number, y: number, width: number, height: number, size = 16): Float32Array => {
+  const thumb = new Float32Array(size * size);
+  for (let ty = 0; ty < size; ty++) {
+    for (let tx = 0; tx < size; tx++) {
+      const sx = x + Math.min(width - 1, Math.floor(((tx + 0.5) / size) * width));
+      const sy = y + Math.min(height - 1, Math.floor(((ty + 0.5) / size) * height));
+      thumb[ty * size + tx] = luma[sy * stride + sx];
+    }
+  }
+  return thumb;
+};
+
+export const meanAbsoluteDifference = (a: Float32Array, b: Float32Array): number => {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return a.length ? total / a.length : 0;
+};
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import type { PromptFeedback } from './generationErrors';
+import type { GridLayout } from '../types';
+
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  images: InlineImage[];
+  /** The sprite-sheet grid the prompt asks for. Real models read it from the prompt; the mock draws it. */
+  layout?: GridLayout;
+  /** Aborting should reject the request with a `GenerationCancelledError`. */
+  signal?: AbortSignal;
+}
+
+export interface ImageGenerationResponse {
+  images: InlineImage[];
+  text: string | null;
+  finishReason?: string;
+  promptFeedback?: PromptFeedback;
+}
+
+/**
+ * A backend that can turn a prompt (plus optional reference images) into images.
+ * `generateAnimationAssets` only talks to this interface, so the app can run
+ * against the live Gemini API or an offline fixture provider.
+ *
+ * Transport failures should be thrown as `GenerationError` subclasses; a
+ * response without images should be returned as-is so the caller can classify it.
+ */
+export interface ImageGenerationProvider {
+  readonly id: ImageProviderId;
+  readonly label: string;
+  generate: (request: ImageGenerationRequest) => Promise<ImageGenerationResponse>;
+}
+
+export type ImageProviderId = 'gemini' | 'mock';
+
+const PROVIDER_IDS: ImageProviderId[] = ['gemini', 'mock'];
+
+const isProviderId = (value: string | null | undefined): value is ImageProviderId =>
+  !!value && (PROVIDER_IDS as string[]).includes(value);
+
+/**
+ * Picks the provider from the `?provider=` query parameter, falling back to the
+ * `IMAGE_PROVIDER` build variable and finally to Gemini.
+ */
+export const resolveProviderId = (): ImageProviderId => {
+  if (typeof window !== 'undefined') {
+    const fromQuery = new URLSearchParams(window.location.search).get('provider');
+    if (isProviderId(fromQuery)) {
+      return fromQuery;
+    }
+  }
+  const fromEnv = process.env.IMAGE_PROVIDER;
+  return isProviderId(fromEnv) ? fromEnv : 'gemini';
+};
+
+export const providerRequiresApiKey = (id: ImageProviderId): boolean => id === 'gemini';
+
+export const createImageGenerationProvider = (id: ImageProviderId, apiKey: string | null): ImageGenerationProvider => {
+  switch (id) {
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+      if (!apiKey) {
+        throw new Error('The Gemini provider requires an API key.');
+      }
+      return createGeminiProvider(apiKey);
+  }
+};
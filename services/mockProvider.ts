@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageGenerationProvider, ImageGenerationRequest, ImageGenerationResponse, InlineImage } from './imageGenerationProvider';
+import { GenerationCancelledError } from './generationErrors';
+import { DEFAULT_GRID } from './frameLayout';
+
+// The mock draws the requested grid with square cells so the player has something real to slice.
+const SHEET_SIZE = 1024;
+const FRAME_DURATIONS = [100, 120, 150, 200, 400];
+const SIMULATED_LATENCY_MS = 800;
+
+// Small, stable string hash so the same prompt always yields the same fixture.
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const simulateLatency = (signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(new GenerationCancelledError());
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, SIMULATED_LATENCY_MS);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GenerationCancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+const loadImage = (image: InlineImage): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Mock provider could not load the reference image.'));
+    img.src = `data:${image.mimeType};base64,${image.data}`;
+  });
+};
+
+const drawPlaceholderSubject = (ctx: CanvasRenderingContext2D, size: number, hue: number) => {
+  ctx.fillStyle = `hsl(${hue}, 40%, 70%)`;
+  ctx.beginPath();
+  ctx.arc(size / 2, size / 2, size * 0.3, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = '#292524';
+  ctx.beginPath();
+  ctx.arc(size * 0.4, size * 0.45, size * 0.04, 0, Math.PI * 2);
+  ctx.arc(size * 0.6, size * 0.45, size * 0.04, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.lineWidth = size * 0.02;
+  ctx.strokeStyle = '#292524';
+  ctx.beginPath();
+  ctx.arc(size / 2, size * 0.55, size * 0.12, 0.15 * Math.PI, 0.85 * Math.PI);
+  ctx.stroke();
+};
+
+const renderFixtureSheet = async (request: ImageGenerationRequest): Promise<InlineImage> => {
+  const canvas = document.createElement('canvas');
+  const { columns, rows } = request.layout ?? DEFAULT_GRID;
+  const cellSize = SHEET_SIZE / Math.max(columns, rows);
+  canvas.width = cellSize * columns;
+  canvas.height = cellSize * rows;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Mock provider could not get a canvas context.');
+  }
+
+  const subject = request.images[0] ? await loadImage(request.images[0]) : null;
+  const hue = hashString(request.prompt) % 360;
+  const frameCount = columns * rows;
+
+  ctx.fillStyle = '#f5f5f4';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  for (let i = 0; i < frameCount; i++) {
+    const phase = (i / frameCount) * Math.PI * 2;
+    const cellX = (i % columns) * cellSize;
+    const cellY = Math.floor(i / columns) * cellSize;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(cellX, cellY, cellSize, cellSize);
+    ctx.clip();
+    ctx.translate(cellX + cellSize / 2, cellY + cellSize / 2 + Math.sin(phase) * cellSize * 0.05);
+    ctx.rotate(Math.sin(phase) * 0.08);
+    ctx.translate(-cellSize / 2, -cellSize / 2);
+
+    if (subject) {
+      const inset = cellSize * 0.1;
+      ctx.drawImage(subject, inset, inset, cellSize - inset * 2, cellSize - inset * 2);
+    } else {
+      drawPlaceholderSubject(ctx, cellSize, hue);
+    }
+    ctx.restore();
+  }
+
+  const dataUrl = canvas.toDataURL('image/png');
+  return { data: dataUrl.split(',')[1], mimeType: 'image/png' };
+};
+
+/**
+ * An offline provider that returns a deterministic fixture sprite sheet built
+ * from the reference image (or a placeholder face), plus metadata JSON that
+ * follows the same schema the real model is asked for.
+ */
+export const createMockProvider = (): ImageGenerationProvider => {
+  const generate = async (request: ImageGenerationRequest): Promise<ImageGenerationResponse> => {
+    await simulateLatency(request.signal);
+    const sheet = await renderFixtureSheet(request);
+    const frameDuration = FRAME_DURATIONS[hashString(request.prompt) % FRAME_DURATIONS.length];
+    return {
+      images: [sheet],
+      text: JSON.stringify({
+        frameDuration,
+        loopType: 'loop',
+        caption: 'gm from the offline mock',
+        altText: 'A placeholder animation where the subject gently bobs and tilts from side to side.',
+      }),
+    };
+  };
+
+  return { id: 'mock', label: 'Offline mock', generate };
+};
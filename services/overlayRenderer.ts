@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Overlay, OverlaySource, OverlayTransform, WatermarkCorner } from '../types';
+
+export const WATERMARK_TEXT = '@gmSBF';
+export const STICKER_EMOJIS = ['😂', '🔥', '💀', '😎', '🚀', '💸', '📉', '📈', '👀', '🤡', '💯', '🙏'];
+export const MIN_OVERLAY_SCALE = 0.05;
+export const MAX_OVERLAY_SCALE = 1;
+
+const DEFAULT_TRANSFORM: OverlayTransform = { x: 0.5, y: 0.5, scale: 0.25, rotation: 0 };
+// Uploaded stickers are stored inline with the creation, so keep them small.
+const MAX_UPLOAD_SIZE = 256;
+// Radius of the scale/rotate handle, in canvas pixels.
+const HANDLE_RADIUS = 10;
+
+export const createOverlay = (source: OverlaySource): Overlay => ({
+  id: `overlay-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  source,
+  transform: { ...DEFAULT_TRANSFORM },
+  keyframes: null,
+});
+
+export const clampOverlayScale = (scale: number): number =>
+  Math.min(MAX_OVERLAY_SCALE, Math.max(MIN_OVERLAY_SCALE, scale));
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+/**
+ * The overlay's placement at a position in the frame order. Between keyframes
+ * it moves in a straight line; before the first and after the last it holds still.
+ */
+export const overlayTransformAt = (overlay: Overlay, position: number): OverlayTransform => {
+  if (!overlay.keyframes?.length) return overlay.transform;
+  const keyframes = [...overlay.keyframes].sort((a, b) => a.position - b.position);
+  const nextIndex = keyframes.findIndex(keyframe => keyframe.position > position);
+  if (nextIndex === 0) return keyframes[0];
+  if (nextIndex < 0) return keyframes[keyframes.length - 1];
+  const from = keyframes[nextIndex - 1];
+  const to = keyframes[nextIndex];
+  const t = (position - from.position) / (to.position - from.position);
+  return {
+    x: lerp(from.x, to.x, t),
+    y: lerp(from.y, to.y, t),
+    scale: lerp(from.scale, to.scale, t),
+    rotation: lerp(from.rotation, to.rotation, t),
+  };
+};
+
+/** Places a static overlay, or adds/updates the keyframe at `position` for one that follows a path. */
+export const setOverlayTransformAt = (overlay: Overlay, position: number, transform: OverlayTransform): Overlay => {
+  if (!overlay.keyframes) return { ...overlay, transform };
+  const keyframe = { ...transform, position };
+  const keyframes = overlay.keyframes.some(k => k.position === position)
+    ? overlay.keyframes.map(k => k.position === position ? keyframe : k)
+    : [...overlay.keyframes, keyframe].sort((a, b) => a.position - b.position);
+  return { ...overlay, keyframes };
+};
+
+/** Loads every image an overlay list needs, keyed by source URL. Images that fail are left out and skipped when drawing. */
+export const loadOverlayImages = async (overlays: Overlay[]): Promise<Map<string, HTMLImageElement>> => {
+  const sources = [...new Set(overlays.flatMap(overlay => overlay.source.kind === 'emoji' ? [] : [overlay.source.src]))];
+  const loaded = await Promise.all(sources.map(src => new Promise<[string, HTMLImageElement] | null>(resolve => {
+    const img = new Image();
+    img.onload = () => resolve([src, img]);
+    img.onerror = () => {
+      console.warn("Could not load overlay image:", src.slice(0, 64));
+      resolve(null);
+    };
+    img.src = src;
+  })));
+  return new Map(loaded.filter((entry): entry is [string, HTMLImageElement] => entry !== null));
+};
+
+/** Reads an uploaded file into a PNG data URL no larger than MAX_UPLOAD_SIZE on its longest side. */
+export const readStickerUpload = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onerror = () => reject(new Error('Could not read the file.'));
+  reader.onload = () => {
+    const img = new Image();
+    img.onerror = () => reject(new Error('That file is not an image the browser can open.'));
+    img.onload = () => {
+      const ratio = Math.min(1, MAX_UPLOAD_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * ratio));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * ratio));
+      canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    img.src = reader.result as string;
+  };
+  reader.readAsDataURL(file);
+});
+
+const overlaySize = (overlay: Overlay, images: Map<string, HTMLImageElement>, scale: number, width: number) => {
+  const boxWidth = scale * width;
+  const img = overlay.source.kind === 'emoji' ? null : images.get(overlay.source.src);
+  const aspect = img && img.naturalWidth > 0 ? img.naturalHeight / img.naturalWidth : 1;
+  return { boxWidth, boxHeight: boxWidth * aspect };
+};
+
+/** Draws the overlays in list order, so later ones sit on top. */
+export const drawOverlays = (
+  ctx: CanvasRenderingContext2D,
+  overlays: Overlay[],
+  images: Map<string, HTMLImageElement>,
+  position: number,
+  width: number,
+  height: number
+) => {
+  overlays.forEach(overlay => {
+    const transform = overlayTransformAt(overlay, position);
+    const { boxWidth, boxHeight } = overlaySize(overlay, images, transform.scale, width);
+    ctx.save();
+    ctx.translate(transform.x * width, transform.y * height);
+    ctx.rotate(transform.rotation * Math.PI / 180);
+    if (overlay.source.kind === 'emoji') {
+      ctx.font = `${Math.round(boxWidth * 0.85)}px "Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(overlay.source.emoji, 0, 0);
+    } else {
+      const img = images.get(overlay.source.src);
+      if (img) {
+        // Preset faces are square photos, so they're cut out as round stickers.
+        if (overlay.source.kind === 'preset') {
+          ctx.beginPath();
+          ctx.ellipse(0, 0, boxWidth / 2, boxHeight / 2, 0, 0, Math.PI * 2);
+          ctx.clip();
+        }
+        ctx.drawImage(img, -boxWidth / 2, -boxHeight / 2, boxWidth, boxHeight);
+      }
+    }
+    ctx.restore();
+  });
+};
+
+/** Outlines the overlay being edited and draws its scale/rotate handle on the bottom-right corner. */
+export const drawOverlaySelection = (
+  ctx: CanvasRenderingContext2D,
+  overlay: Overlay,
+  images: Map<string, HTMLImageElement>,
+  position: number,
+  width: number,
+  height: number
+) => {
+  const transform = overlayTransformAt(overlay, position);
+  const { boxWidth, boxHeight } = overlaySize(overlay, images, transform.scale, width);
+  ctx.save();
+  ctx.translate(transform.x * width, transform.y * height);
+  ctx.rotate(transform.rotation * Math.PI / 180);
+  ctx.strokeStyle = '#3b82f6';
+  ctx.lineWidth = 2;
+  ctx.setLineDash([6, 4]);
+  ctx.strokeRect(-boxWidth / 2, -boxHeight / 2, boxWidth, boxHeight);
+  ctx.setLineDash([]);
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  ctx.arc(boxWidth / 2, boxHeight / 2, HANDLE_RADIUS, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+};
+
+export type OverlayHit = { id: string; part: 'body' | 'handle' };
+
+/**
+ * Finds what's under a canvas point: the selected overlay's handle first, then
+ * the topmost overlay whose rotated box contains the point.
+ */
+export const hitTestOverlays = (
+  overlays: Overlay[],
+  images: Map<string, HTMLImageElement>,
+  selectedId: string | null,
+  position: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): OverlayHit | null => {
+  const toLocal = (overlay: Overlay) => {
+    const transform = overlayTransformAt(overlay, position);
+    const angle = -transform.rotation * Math.PI / 180;
+    const dx = x - transform.x * width;
+    const dy = y - transform.y * height;
+    return {
+      localX: dx * Math.cos(angle) - dy * Math.sin(angle),
+      localY: dx * Math.sin(angle) + dy * Math.cos(angle),
+      ...overlaySize(overlay, images, transform.scale, width),
+    };
+  };
+
+  const selected = overlays.find(overlay => overlay.id === selectedId);
+  if (selected) {
+    const { localX, localY, boxWidth, boxHeight } = toLocal(selected);
+    if (Math.hypot(localX - boxWidth / 2, localY - boxHeight / 2) <= HANDLE_RADIUS * 1.5) {
+      return { id: selected.id, part: 'handle' };
+    }
+  }
+  for (let i = overlays.length - 1; i >= 0; i--) {
+    const { localX, localY, boxWidth, boxHeight } = toLocal(overlays[i]);
+    if (Math.abs(localX) <= boxWidth / 2 && Math.abs(localY) <= boxHeight / 2) {
+      return { id: overlays[i].id, part: 'body' };
+    }
+  }
+  return null;
+};
+
+/** Draws the team handle small and semi-transparent in a corner. */
+export const drawWatermark = (ctx: CanvasRenderingContext2D, corner: WatermarkCorner, width: number, height: number) => {
+  const fontSize = Math.round(height * 0.045);
+  const margin = Math.round(width * 0.03);
+  const [vertical, horizontal] = corner.split('-');
+  ctx.save();
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.textAlign = horizontal === 'left' ? 'left' : 'right';
+  ctx.textBaseline = vertical === 'top' ? 'top' : 'bottom';
+  ctx.globalAlpha = 0.7;
+  ctx.lineWidth = Math.max(2, fontSize * 0.15);
+  ctx.strokeStyle = '#000000';
+  ctx.fillStyle = '#ffffff';
+  const x = horizontal === 'left' ? margin : width - margin;
+  const y = vertical === 'top' ? margin : height - margin;
+  ctx.strokeText(WATERMARK_TEXT, x, y);
+  ctx.fillText(WATERMARK_TEXT, x, y);
+  ctx.restore();
+};
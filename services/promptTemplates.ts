@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { promptSuggestions } from '../prompts';
+
+export interface PromptTemplate {
+  id: string;
+  emoji: string;
+  /** Prompt text; `{name}` marks a variable the user fills in. */
+  template: string;
+  isCustom?: boolean;
+}
+
+/** The shape written by Export and accepted by Import. */
+export interface TemplatePack {
+  version: 1;
+  templates: { emoji: string; template: string }[];
+}
+
+export const BUILTIN_TEMPLATES: PromptTemplate[] = [
+  ...promptSuggestions.map(({ emoji, prompt }, i) => ({ id: `builtin-${i}`, emoji, template: prompt })),
+  { id: 'builtin-profession', emoji: '🎭', template: '{subject} as a {profession} doing {action}.' },
+  { id: 'builtin-lost', emoji: '🗺️', template: '{subject} lost in {place}, frantically looking for {thing}.' },
+];
+
+const STORAGE_KEY = 'gmSbfTemplates';
+const PLACEHOLDER_PATTERN = /\{([a-zA-Z][\w ]{0,30})\}/g;
+const MAX_TEMPLATE_LENGTH = 500;
+
+export class TemplatePackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplatePackError';
+  }
+}
+
+/** Variable names in the order they first appear, without duplicates. */
+export const templateVariables = (template: string): string[] => {
+  const names = Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => match[1].trim());
+  return Array.from(new Set(names));
+};
+
+/** Replaces every `{name}` with its value. Empty values keep the placeholder so it's obvious what's missing. */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => values[name.trim()]?.trim() || placeholder);
+
+export const createCustomTemplate = (emoji: string, template: string): PromptTemplate => ({
+  id: `custom-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  emoji: emoji.trim() || '💬',
+  template: template.trim(),
+  isCustom: true,
+});
+
+export const loadCustomTemplates = (): PromptTemplate[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseTemplatePack(stored) : [];
+  } catch (e) {
+    console.error("Failed to load prompt templates from localStorage", e);
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, exportTemplatePack(templates));
+};
+
+export const exportTemplatePack = (templates: PromptTemplate[]): string => {
+  const pack: TemplatePack = {
+    version: 1,
+    templates: templates.map(({ emoji, template }) => ({ emoji, template })),
+  };
+  return JSON.stringify(pack, null, 2);
+};
+
+/**
+ * Reads a pack written by `exportTemplatePack`. Anything that doesn't match the
+ * format is rejected with a message that says what is wrong.
+ */
+export const parseTemplatePack = (json: string): PromptTemplate[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new TemplatePackError('The file is not valid JSON.');
+  }
+  const pack = parsed as Partial<TemplatePack>;
+  if (!pack || typeof pack !== 'object' || pack.version !== 1 || !Array.isArray(pack.templates)) {
+    throw new TemplatePackError('The file is not a template pack (expected {"version": 1, "templates": [...]}).');
+  }
+  return pack.templates.map((entry, index) => {
+    if (!entry || typeof entry.template !== 'string' || !entry.template.trim()) {
+      throw new TemplatePackError(`Template ${index + 1} has no prompt text.`);
+    }
+    if (entry.template.length > MAX_TEMPLATE_LENGTH) {
+      throw new TemplatePackError(`Template ${index + 1} is longer than ${MAX_TEMPLATE_LENGTH} characters.`);
+    }
+    if (entry.emoji !== undefined && typeof entry.emoji !== 'string') {
+      throw new TemplatePackError(`Template ${index + 1} has an invalid emoji.`);
+    }
+    return createCustomTemplate(entry.emoji ?? '', entry.template);
+  });
+};
@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { LoopMode } from '../types';
+import { createZip } from './zipArchive';
+
+export type AtlasFormat = 'texturepacker-hash' | 'aseprite';
+
+export interface SpriteSheetExportOptions {
+  /** Square cell size frames are scaled to fit; `null` keeps the largest frame's size. */
+  cellSize: number | null;
+  /** Empty pixels around every cell, so texture filtering doesn't bleed between frames. */
+  padding: number;
+  /** Clears the background colour connected to each frame's edges. */
+  transparentBackground: boolean;
+  atlasFormat: AtlasFormat;
+}
+
+export interface AtlasAnimation {
+  /** Source frame indices in playback order; duplicates are allowed. */
+  frameOrder: number[];
+  /** Milliseconds per source frame. */
+  durations: number[];
+  loopMode: LoopMode;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+interface PackedSheet {
+  canvas: HTMLCanvasElement;
+  rects: Rect[];
+}
+
+// Summed RGB difference from the edge colour that still counts as background.
+const BACKGROUND_TOLERANCE = 60;
+const ANIMATION_NAME = 'sbf';
+
+const frameName = (index: number) => `frame_${String(index).padStart(2, '0')}`;
+
+/**
+ * Makes the background transparent by flood-filling from the frame's border
+ * with the average corner colour. Filling from the edges keeps same-coloured
+ * details inside the subject intact.
+ */
+const clearEdgeBackground = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const image = ctx.getImageData(0, 0, width, height);
+  const { data } = image;
+  const corners = [0, width - 1, (height - 1) * width, height * width - 1];
+  const reference = [0, 1, 2].map(c => corners.reduce((sum, pixel) => sum + data[pixel * 4 + c], 0) / corners.length);
+  const matches = (pixel: number) =>
+    data[pixel * 4 + 3] > 0
+    && Math.abs(data[pixel * 4] - reference[0]) + Math.abs(data[pixel * 4 + 1] - reference[1]) + Math.abs(data[pixel * 4 + 2] - reference[2]) <= BACKGROUND_TOLERANCE;
+
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+  for (let x = 0; x < width; x++) stack.push(x, (height - 1) * width + x);
+  for (let y = 0; y < height; y++) stack.push(y * width, y * width + width - 1);
+  while (stack.length > 0) {
+    const pixel = stack.pop()!;
+    if (visited[pixel] || !matches(pixel)) continue;
+    visited[pixel] = 1;
+    data[pixel * 4 + 3] = 0;
+    const x = pixel % width;
+    if (x > 0) stack.push(pixel - 1);
+    if (x < width - 1) stack.push(pixel + 1);
+    if (pixel >= width) stack.push(pixel - width);
+    if (pixel < (height - 1) * width) stack.push(pixel + width);
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+/** Lays the frames out in a near-square grid of uniform cells, each frame centred in its cell. */
+const packFrames = (frames: HTMLImageElement[], options: SpriteSheetExportOptions): PackedSheet => {
+  const cellWidth = options.cellSize ?? Math.max(...frames.map(frame => frame.naturalWidth));
+  const cellHeight = options.cellSize ?? Math.max(...frames.map(frame => frame.naturalHeight));
+  const columns = Math.ceil(Math.sqrt(frames.length));
+  const rows = Math.ceil(frames.length / columns);
+  const { padding } = options;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = columns * (cellWidth + padding) + padding;
+  canvas.height = rows * (cellHeight + padding) + padding;
+  const ctx = canvas.getContext('2d');
+  const cell = document.createElement('canvas');
+  cell.width = cellWidth;
+  cell.height = cellHeight;
+  const cellCtx = cell.getContext('2d', { willReadFrequently: true });
+  if (!ctx || !cellCtx) throw new Error('Could not create a canvas for the sprite sheet.');
+
+  const rects = frames.map((frame, index) => {
+    const scale = Math.min(cellWidth / frame.naturalWidth, cellHeight / frame.naturalHeight, options.cellSize ? Infinity : 1);
+    const width = Math.round(frame.naturalWidth * scale);
+    const height = Math.round(frame.naturalHeight * scale);
+    cellCtx.clearRect(0, 0, cellWidth, cellHeight);
+    cellCtx.drawImage(frame, Math.floor((cellWidth - width) / 2), Math.floor((cellHeight - height) / 2), width, height);
+    if (options.transparentBackground) clearEdgeBackground(cellCtx, cellWidth, cellHeight);
+
+    const x = padding + (index % columns) * (cellWidth + padding);
+    const y = padding + Math.floor(index / columns) * (cellHeight + padding);
+    ctx.drawImage(cell, x, y);
+    return { x, y, w: cellWidth, h: cellHeight };
+  });
+  return { canvas, rects };
+};
+
+const sheetFrame = (rect: Rect) => ({
+  frame: rect,
+  rotated: false,
+  trimmed: false,
+  spriteSourceSize: { x: 0, y: 0, w: rect.w, h: rect.h },
+  sourceSize: { w: rect.w, h: rect.h },
+});
+
+/**
+ * TexturePacker's JSON (hash) layout, which Phaser and PixiJS load directly.
+ * The `animations` list is what PixiJS uses to build an AnimatedSprite.
+ */
+const buildTexturePackerAtlas = (sheet: PackedSheet, imageName: string, animation: AtlasAnimation) => ({
+  frames: Object.fromEntries(sheet.rects.map((rect, index) => [frameName(index), { ...sheetFrame(rect), duration: animation.durations[index] }])),
+  animations: { [ANIMATION_NAME]: animation.frameOrder.map(frameName) },
+  meta: {
+    app: 'gm SBF',
+    version: '1.0',
+    image: imageName,
+    format: 'RGBA8888',
+    size: { w: sheet.canvas.width, h: sheet.canvas.height },
+    scale: '1',
+    loop: animation.loopMode,
+  },
+});
+
+/**
+ * Aseprite's exported JSON (array) layout. Its frames are the timeline, so
+ * they follow the playback order and may point at the same cell more than once.
+ */
+const buildAsepriteAtlas = (sheet: PackedSheet, imageName: string, animation: AtlasAnimation) => ({
+  frames: animation.frameOrder.map((frameIndex, position) => ({
+    filename: `${ANIMATION_NAME} ${position}.png`,
+    ...sheetFrame(sheet.rects[frameIndex]),
+    duration: animation.durations[frameIndex],
+  })),
+  meta: {
+    app: 'gm SBF',
+    version: '1.0',
+    image: imageName,
+    format: 'RGBA8888',
+    size: { w: sheet.canvas.width, h: sheet.canvas.height },
+    scale: '1',
+    frameTags: [{
+      name: ANIMATION_NAME,
+      from: 0,
+      to: animation.frameOrder.length - 1,
+      direction: animation.loopMode === 'ping-pong' ? 'pingpong' : 'forward',
+      // Aseprite leaves `repeat` out for endless loops.
+      ...(animation.loopMode === 'once' ? { repeat: '1' } : {}),
+    }],
+    layers: [],
+    slices: [],
+  },
+});
+
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Uint8Array> => new Promise((resolve, reject) => {
+  canvas.toBlob(blob => {
+    if (!blob) {
+      reject(new Error('Could not encode the sprite sheet as PNG.'));
+      return;
+    }
+    blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+  }, 'image/png');
+});
+
+/**
+ * Packs the frames into a clean PNG sprite sheet with a JSON atlas next to it,
+ * zipped together. `baseName` names the files inside, without an extension.
+ */
+export const createSpriteSheetZip = async (
+  frames: HTMLImageElement[],
+  animation: AtlasAnimation,
+  options: SpriteSheetExportOptions,
+  baseName: string
+): Promise<Blob> => {
+  if (frames.length === 0) throw new Error('There are no frames to export.');
+  const sheet = packFrames(frames, options);
+  const imageName = `${baseName}.png`;
+  const atlas = options.atlasFormat === 'aseprite'
+    ? buildAsepriteAtlas(sheet, imageName, animation)
+    : buildTexturePackerAtlas(sheet, imageName, animation);
+  return createZip([
+    { name: imageName, data: await canvasToPng(sheet.canvas) },
+    { name: `${baseName}.json`, data: new TextEncoder().encode(JSON.stringify(atlas, null, 2)) },
+  ]);
+};
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GridLayout } from '../types';
+import { meanAbsoluteDifference, readPixels, regionStats, regionThumbnail, toLuminance } from './imageAnalysis';
+
+export type SpriteSheetIssueCode = 'too-small' | 'wrong-aspect' | 'missing-grid' | 'empty-frame' | 'duplicate-frames';
+
+export interface SpriteSheetIssue {
+  code: SpriteSheetIssueCode;
+  message: string;
+}
+
+export interface SpriteSheetReport {
+  width: number;
+  height: number;
+  issues: SpriteSheetIssue[];
+  isAcceptable: boolean;
+}
+
+const MIN_SHEET_SIZE = 256;
+const ASPECT_TOLERANCE = 0.15;
+const ANALYSIS_SIZE = 256;
+// Seams are searched for within this fraction of the sheet around their expected position.
+const SEAM_SEARCH_WINDOW = 0.04;
+const GUTTER_MAX_STD_DEV = 8;
+const SEAM_EDGE_RATIO = 2.5;
+const EMPTY_FRAME_MAX_STD_DEV = 4;
+const DUPLICATE_MAX_DIFFERENCE = 2;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Looks for evidence of a cell boundary near each expected seam: either a
+ * uniform gutter line or an edge that is much stronger than a typical one.
+ */
+const countVisibleSeams = (luma: Float32Array, width: number, height: number, divisions: number, vertical: boolean): number => {
+  const length = vertical ? width : height;
+  const span = vertical ? height : width;
+  const at = (line: number, offset: number) => vertical ? luma[offset * width + line] : luma[line * width + offset];
+
+  const lineStdDev: number[] = [];
+  const lineEdge: number[] = [0];
+  for (let line = 0; line < length; line++) {
+    let sum = 0;
+    let sumSq = 0;
+    let edge = 0;
+    for (let offset = 0; offset < span; offset++) {
+      const value = at(line, offset);
+      sum += value;
+      sumSq += value * value;
+      if (line > 0) edge += Math.abs(value - at(line - 1, offset));
+    }
+    const mean = sum / span;
+    lineStdDev.push(Math.sqrt(Math.max(0, sumSq / span - mean * mean)));
+    if (line > 0) lineEdge.push(edge / span);
+  }
+  const typicalEdge = Math.max(1, median(lineEdge));
+
+  let found = 0;
+  const window = Math.max(2, Math.round(length * SEAM_SEARCH_WINDOW));
+  for (let k = 1; k < divisions; k++) {
+    const expected = Math.round((k * length) / divisions);
+    for (let line = Math.max(1, expected - window); line <= Math.min(length - 1, expected + window); line++) {
+      if (lineStdDev[line] <= GUTTER_MAX_STD_DEV || lineEdge[line] >= typicalEdge * SEAM_EDGE_RATIO) {
+        found++;
+        break;
+      }
+    }
+  }
+  return found;
+};
+
+/**
+ * Runs cheap pixel-statistics checks on a generated sprite sheet: its size and
+ * aspect ratio, whether the cell grid is visible, and whether any frames are
+ * blank or repeated.
+ */
+export const validateSpriteSheet = (img: HTMLImageElement, grid: GridLayout): SpriteSheetReport => {
+  const { naturalWidth: width, naturalHeight: height } = img;
+  const { columns, rows } = grid;
+  const issues: SpriteSheetIssue[] = [];
+
+  if (Math.min(width, height) < MIN_SHEET_SIZE) {
+    issues.push({ code: 'too-small', message: `The sheet is only ${width}x${height} pixels.` });
+  }
+  const expectedAspect = columns / rows;
+  if (Math.abs(width / height - expectedAspect) / expectedAspect > ASPECT_TOLERANCE) {
+    issues.push({ code: 'wrong-aspect', message: `The sheet is ${width}x${height}, which does not fit a ${columns}x${rows} grid.` });
+  }
+
+  const pixels = readPixels(img, width, height, ANALYSIS_SIZE);
+  const luma = toLuminance(pixels);
+  const w = pixels.width;
+  const h = pixels.height;
+
+  const seams = countVisibleSeams(luma, w, h, columns, true) + countVisibleSeams(luma, w, h, rows, false);
+  const expectedSeams = columns - 1 + rows - 1;
+  if (expectedSeams > 0 && seams * 2 < expectedSeams) {
+    issues.push({ code: 'missing-grid', message: `Only ${seams} of ${expectedSeams} grid lines could be found.` });
+  }
+
+  const cellWidth = Math.floor(w / columns);
+  const cellHeight = Math.floor(h / rows);
+  const thumbnails: Float32Array[] = [];
+  const emptyFrames: number[] = [];
+  for (let i = 0; i < columns * rows; i++) {
+    const x = (i % columns) * cellWidth;
+    const y = Math.floor(i / columns) * cellHeight;
+    if (regionStats(luma, w, x, y, cellWidth, cellHeight).stdDev <= EMPTY_FRAME_MAX_STD_DEV) {
+      emptyFrames.push(i + 1);
+    }
+    thumbnails.push(regionThumbnail(luma, w, x, y, cellWidth, cellHeight));
+  }
+  if (emptyFrames.length > 0) {
+    issues.push({ code: 'empty-frame', message: `Frame ${emptyFrames.join(', ')} ${emptyFrames.length === 1 ? 'is' : 'are'} blank.` });
+  }
+
+  let duplicates = 0;
+  for (let i = 1; i < thumbnails.length; i++) {
+    if (meanAbsoluteDifference(thumbnails[i], thumbnails[i - 1]) <= DUPLICATE_MAX_DIFFERENCE) {
+      duplicates++;
+    }
+  }
+  // A held frame or two is a legitimate animation choice; a mostly static sheet is not.
+  if (duplicates * 3 > thumbnails.length) {
+    issues.push({ code: 'duplicate-frames', message: `${duplicates} frames are identical to the one before them.` });
+  }
+
+  return { width, height, issues, isAcceptable: issues.length === 0 };
+};
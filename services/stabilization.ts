@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { readPixels, toLuminance } from './imageAnalysis';
+
+/** How a frame has drifted relative to the reference frame, in frame pixels. */
+export interface FrameTransform {
+  dx: number;
+  dy: number;
+  scale: number;
+}
+
+export interface StabilizationOptions {
+  /** Index of the frame every other frame is aligned to. */
+  referenceIndex?: number;
+  /** Also estimate zoom drift, not just translation. Slower. */
+  estimateScale?: boolean;
+}
+
+const COARSE_SIZE = 48;
+const FINE_SIZE = 96;
+// Largest drift searched for, as a fraction of the frame size.
+const MAX_SHIFT_FRACTION = 0.12;
+const SCALE_CANDIDATES = [0.94, 0.96, 0.98, 1, 1.02, 1.04, 1.06];
+
+interface Plane {
+  luma: Float32Array;
+  size: number;
+}
+
+const toPlane = (img: HTMLImageElement, size: number): Plane => {
+  const pixels = readPixels(img, size, size);
+  const luma = toLuminance(pixels);
+  // Removing the mean makes the match less sensitive to global brightness flicker.
+  let mean = 0;
+  for (let i = 0; i < luma.length; i++) mean += luma[i];
+  mean /= luma.length;
+  for (let i = 0; i < luma.length; i++) luma[i] -= mean;
+  return { luma, size };
+};
+
+/**
+ * Mean absolute difference between the reference and the candidate sampled at
+ * `(x - cx) * scale + cx + dx`. Only the central region is compared so shifted
+ * samples stay inside the frame.
+ */
+const alignmentError = (reference: Plane, candidate: Plane, dx: number, dy: number, scale: number): number => {
+  const { size } = reference;
+  const margin = Math.ceil(size * MAX_SHIFT_FRACTION) + 1;
+  const centre = size / 2;
+  let total = 0;
+  let count = 0;
+  for (let y = margin; y < size - margin; y++) {
+    const sy = Math.round((y - centre) * scale + centre + dy);
+    if (sy < 0 || sy >= size) continue;
+    for (let x = margin; x < size - margin; x++) {
+      const sx = Math.round((x - centre) * scale + centre + dx);
+      if (sx < 0 || sx >= size) continue;
+      total += Math.abs(reference.luma[y * size + x] - candidate.luma[sy * size + sx]);
+      count++;
+    }
+  }
+  return count ? total / count : Infinity;
+};
+
+const searchShift = (reference: Plane, candidate: Plane, centreX: number, centreY: number, radius: number, scale: number) => {
+  let best = { dx: centreX, dy: centreY, error: Infinity };
+  for (let dy = centreY - radius; dy <= centreY + radius; dy++) {
+    for (let dx = centreX - radius; dx <= centreX + radius; dx++) {
+      const error = alignmentError(reference, candidate, dx, dy, scale);
+      if (error < best.error) best = { dx, dy, error };
+    }
+  }
+  return best;
+};
+
+/**
+ * Estimates each frame's drift from the reference frame with a coarse-to-fine
+ * block-matching search over downsampled luminance.
+ */
+export const estimateFrameTransforms = (frames: HTMLImageElement[], options: StabilizationOptions = {}): FrameTransform[] => {
+  const referenceIndex = options.referenceIndex ?? 0;
+  if (frames.length === 0) return [];
+
+  const coarse = frames.map(frame => toPlane(frame, COARSE_SIZE));
+  const fine = frames.map(frame => toPlane(frame, FINE_SIZE));
+  const coarseRadius = Math.ceil(COARSE_SIZE * MAX_SHIFT_FRACTION);
+  const ratio = FINE_SIZE / COARSE_SIZE;
+
+  return frames.map((frame, index) => {
+    if (index === referenceIndex) {
+      return { dx: 0, dy: 0, scale: 1 };
+    }
+    let scale = 1;
+    let coarseBest = searchShift(coarse[referenceIndex], coarse[index], 0, 0, coarseRadius, 1);
+    if (options.estimateScale) {
+      for (const candidateScale of SCALE_CANDIDATES) {
+        const result = searchShift(coarse[referenceIndex], coarse[index], coarseBest.dx, coarseBest.dy, 1, candidateScale);
+        if (result.error < coarseBest.error) {
+          coarseBest = result;
+          scale = candidateScale;
+        }
+      }
+    }
+    const fineBest = searchShift(fine[referenceIndex], fine[index], coarseBest.dx * ratio, coarseBest.dy * ratio, Math.ceil(ratio), scale);
+    return {
+      dx: fineBest.dx * frame.naturalWidth / FINE_SIZE,
+      dy: fineBest.dy * frame.naturalHeight / FINE_SIZE,
+      scale,
+    };
+  });
+};
+
+const loadCanvasImage = (canvas: HTMLCanvasElement): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load stabilized frame image'));
+    img.src = canvas.toDataURL();
+  });
+};
+
+/**
+ * Re-draws every frame with `strength` (0-1) of its estimated drift undone.
+ * All frames get the same slight zoom so shifted edges never show a border.
+ */
+export const applyFrameTransforms = async (frames: HTMLImageElement[], transforms: FrameTransform[], strength: number): Promise<HTMLImageElement[]> => {
+  let maxShift = 0;
+  transforms.forEach((t, index) => {
+    const frame = frames[index];
+    if (!frame) return;
+    maxShift = Math.max(maxShift, Math.abs(t.dx) / frame.naturalWidth, Math.abs(t.dy) / frame.naturalHeight, Math.abs(1 - t.scale) / 2);
+  });
+  const coverZoom = 1 + 2 * maxShift * strength;
+
+  return Promise.all(frames.map((frame, index) => {
+    const transform = transforms[index] ?? { dx: 0, dy: 0, scale: 1 };
+    const width = frame.naturalWidth;
+    const height = frame.naturalHeight;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.resolve(frame);
+
+    const correctionScale = 1 + (1 / transform.scale - 1) * strength;
+    ctx.translate(width / 2, height / 2);
+    ctx.scale(coverZoom * correctionScale, coverZoom * correctionScale);
+    ctx.translate(-width / 2 - transform.dx * strength, -height / 2 - transform.dy * strength);
+    ctx.drawImage(frame, 0, 0, width, height);
+    return loadCanvasImage(canvas);
+  }));
+};
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const MIN_FRAME_DURATION = 16;
+export const MAX_FRAME_DURATION = 5000;
+
+export type TimingPresetId = 'uniform' | 'hold-first' | 'hold-last' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'dramatic-pause';
+
+export const TIMING_PRESETS: { id: TimingPresetId; label: string }[] = [
+  { id: 'uniform', label: 'Even' },
+  { id: 'hold-first', label: 'Hold first frame' },
+  { id: 'hold-last', label: 'Hold last frame' },
+  { id: 'ease-in', label: 'Ease in' },
+  { id: 'ease-out', label: 'Ease out' },
+  { id: 'ease-in-out', label: 'Ease in & out' },
+  { id: 'dramatic-pause', label: 'Dramatic pause' },
+];
+
+const HOLD_MULTIPLIER = 4;
+const PAUSE_MULTIPLIER = 6;
+const MIN_PAUSE_DURATION = 800;
+// Slowest frame of an eased curve, relative to the base duration.
+const EASE_SLOWEST = 2.2;
+const EASE_FASTEST = 0.6;
+
+export const clampDuration = (ms: number): number =>
+  Math.round(Math.min(MAX_FRAME_DURATION, Math.max(MIN_FRAME_DURATION, ms)));
+
+/**
+ * Builds per-frame durations for a preset around `baseDuration`.
+ * `pauseFrame` (0-based) is only used by the dramatic pause preset.
+ */
+export const applyTimingPreset = (preset: TimingPresetId, frameCount: number, baseDuration: number, pauseFrame = 0): number[] => {
+  const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+  return Array.from({ length: frameCount }, (_, i) => {
+    const t = frameCount > 1 ? i / (frameCount - 1) : 0;
+    switch (preset) {
+      case 'hold-first':
+        return clampDuration(i === 0 ? baseDuration * HOLD_MULTIPLIER : baseDuration);
+      case 'hold-last':
+        return clampDuration(i === frameCount - 1 ? baseDuration * HOLD_MULTIPLIER : baseDuration);
+      case 'ease-in':
+        // Starts slow and speeds up.
+        return clampDuration(baseDuration * lerp(EASE_SLOWEST, EASE_FASTEST, t));
+      case 'ease-out':
+        return clampDuration(baseDuration * lerp(EASE_FASTEST, EASE_SLOWEST, t));
+      case 'ease-in-out':
+        return clampDuration(baseDuration * lerp(EASE_FASTEST, EASE_SLOWEST, Math.abs(1 - 2 * t)));
+      case 'dramatic-pause':
+        return clampDuration(i === pauseFrame ? Math.max(MIN_PAUSE_DURATION, baseDuration * PAUSE_MULTIPLIER) : baseDuration);
+      case 'uniform':
+      default:
+        return clampDuration(baseDuration);
+    }
+  });
+};
+
+/** Uses stored durations when they match the frame count, otherwise an even timing. */
+export const resolveFrameDurations = (frameDurations: number[] | undefined, frameCount: number, fallback: number): number[] =>
+  frameDurations && frameDurations.length === frameCount
+    ? frameDurations.map(clampDuration)
+    : Array.from({ length: frameCount }, () => clampDuration(fallback));
+
+export const averageDuration = (durations: number[]): number =>
+  durations.length ? Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length) : 0;
+
+/** Finds which frame is showing `elapsedMs` into one pass of the loop. */
+export const frameIndexAt = (durations: number[], elapsedMs: number): number => {
+  let remaining = elapsedMs;
+  for (let i = 0; i < durations.length; i++) {
+    if (remaining < durations[i]) return i;
+    remaining -= durations[i];
+  }
+  return Math.max(0, durations.length - 1);
+};
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type VideoFormat = 'webm' | 'mp4';
+
+export interface VideoEncodeOptions {
+  format: VideoFormat;
+  /** Output width and height in pixels; frames are square. */
+  size: number;
+  /** Target bitrate in bits per second. Browsers treat it as a hint. */
+  bitrate: number;
+  /** How many times the frame sequence is repeated in the file. */
+  loopCount: number;
+}
+
+// Container and codec pairs to try, most widely playable first.
+const MIME_CANDIDATES: Record<VideoFormat, string[]> = {
+  webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1.42E01E', 'video/mp4;codecs=avc1', 'video/mp4'],
+};
+
+// The capture stream samples the canvas at up to this rate; it must beat the shortest frame duration.
+const CAPTURE_FRAME_RATE = 60;
+
+/** The recorder MIME type for a format in this browser, or null when it can't record it. */
+export const videoMimeType = (format: VideoFormat): string | null => {
+  if (typeof MediaRecorder === 'undefined' || typeof MediaRecorder.isTypeSupported !== 'function') return null;
+  return MIME_CANDIDATES[format].find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+export const supportedVideoFormats = (): VideoFormat[] =>
+  (Object.keys(MIME_CANDIDATES) as VideoFormat[]).filter(format => videoMimeType(format) !== null);
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Records the frames into a video by playing them on a hidden canvas in real
+ * time, since MediaRecorder timestamps frames by the wall clock. Encoding
+ * therefore takes as long as the video is. `durations` has one entry per frame.
+ */
+export const encodeVideo = async (
+  frames: CanvasImageSource[],
+  durations: number[],
+  options: VideoEncodeOptions,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> => {
+  const mimeType = videoMimeType(options.format);
+  if (!mimeType) {
+    throw new Error(`This browser can't record ${options.format.toUpperCase()} video.`);
+  }
+  if (frames.length === 0) {
+    throw new Error('There are no frames to record.');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = options.size;
+  canvas.height = options.size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a canvas to record the video.');
+  const draw = (frame: CanvasImageSource) => {
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(frame, 0, 0, canvas.width, canvas.height);
+  };
+
+  const stream = canvas.captureStream(CAPTURE_FRAME_RATE);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: options.bitrate });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve, reject) => {
+    recorder.onstop = () => resolve();
+    recorder.onerror = event => reject((event as ErrorEvent).error ?? new Error('Video recording failed.'));
+  });
+
+  draw(frames[0]);
+  recorder.start();
+  try {
+    const totalSteps = frames.length * options.loopCount;
+    for (let step = 0; step < totalSteps; step++) {
+      const index = step % frames.length;
+      draw(frames[index]);
+      onProgress?.(step / totalSteps);
+      await wait(durations[index]);
+    }
+  } finally {
+    recorder.stop();
+    stream.getTracks().forEach(track => track.stop());
+  }
+  await stopped;
+  onProgress?.(1);
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
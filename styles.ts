@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ArtStyleId =
+  | 'charcoal'
+  | 'pixel-art'
+  | 'watercolor'
+  | 'claymation'
+  | 'anime-cel'
+  | 'comic-ink'
+  | '3d-render';
+
+export interface ArtStyle {
+  id: ArtStyleId;
+  label: string;
+  /** Dropped into the creative direction, e.g. "in the style of ...". */
+  instruction: string;
+  /** Milliseconds per frame to use when the model doesn't suggest a timing. */
+  defaultFrameDuration: number;
+  thumbnail: string;
+}
+
+export const ART_STYLES: ArtStyle[] = [
+  {
+    id: 'charcoal',
+    label: 'Charcoal sketch',
+    instruction: 'in the style of a charcoal sketch animation, with rough hand-drawn strokes, smudged shading and an off-white paper background',
+    defaultFrameDuration: 120,
+    thumbnail: '/assets/styles/charcoal.svg',
+  },
+  {
+    id: 'pixel-art',
+    label: 'Pixel art',
+    instruction: 'as retro 16-bit pixel art, with a limited colour palette, crisp square pixels, no anti-aliasing and no motion blur',
+    defaultFrameDuration: 100,
+    thumbnail: '/assets/styles/pixel-art.svg',
+  },
+  {
+    id: 'watercolor',
+    label: 'Watercolor',
+    instruction: 'as a soft watercolor painting, with translucent washes, bleeding edges, visible paper texture and light ink outlines',
+    defaultFrameDuration: 180,
+    thumbnail: '/assets/styles/watercolor.svg',
+  },
+  {
+    id: 'claymation',
+    label: 'Claymation',
+    instruction: 'as a stop-motion claymation, with plasticine figures, visible fingerprints and tool marks, soft studio lighting and slightly jerky stop-motion movement',
+    defaultFrameDuration: 160,
+    thumbnail: '/assets/styles/claymation.svg',
+  },
+  {
+    id: 'anime-cel',
+    label: 'Anime cel',
+    instruction: 'as a hand-painted anime cel animation, with clean line art, flat cel shading with hard shadow shapes and expressive faces',
+    defaultFrameDuration: 110,
+    thumbnail: '/assets/styles/anime-cel.svg',
+  },
+  {
+    id: 'comic-ink',
+    label: 'Comic ink',
+    instruction: 'as an inked comic book panel, with bold black outlines, halftone dot shading and a few flat spot colours',
+    defaultFrameDuration: 140,
+    thumbnail: '/assets/styles/comic-ink.svg',
+  },
+  {
+    id: '3d-render',
+    label: '3D render',
+    instruction: 'as a polished 3D animated film render, with soft global illumination, subsurface skin shading and a shallow depth of field',
+    defaultFrameDuration: 100,
+    thumbnail: '/assets/styles/3d-render.svg',
+  },
+];
+
+export const DEFAULT_STYLE_ID: ArtStyleId = 'charcoal';
+
+/** Looks up a style, falling back to the default for unknown or missing ids (e.g. older creations). */
+export const getArtStyle = (id?: string | null): ArtStyle =>
+  ART_STYLES.find(style => style.id === id) ?? ART_STYLES.find(style => style.id === DEFAULT_STYLE_ID)!;
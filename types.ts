@@ -3,6 +3,10 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { AnimationAssets } from './services/geminiService';
+import { InlineImage } from './services/imageGenerationProvider';
+import { ArtStyleId } from './styles';
+import { VideoFormat } from './services/videoEncoder';
+import { GifPaletteMode } from './services/gifEncoder';
 
 export enum AppState {
   Capturing,
@@ -10,8 +14,17 @@ export enum AppState {
   Animating,
   Error,
   Gallery,
+  ChoosingVariant,
 }
 
+export interface GridLayout {
+  columns: number;
+  rows: number;
+}
+
+/** How the frame sequence repeats: wrap around, bounce back and forth, or stop on the last frame. */
+export type LoopMode = 'loop' | 'ping-pong' | 'once';
+
 export interface Frame {
   x: number;
   y: number;
@@ -19,8 +32,135 @@ export interface Frame {
   height: number;
 }
 
+export type CaptionPosition = 'top' | 'middle' | 'bottom';
+
+/** Meme text drawn over the animation. Kept separate from the sprite sheet so it stays editable. */
+export interface Caption {
+    id: string;
+    text: string;
+    position: CaptionPosition;
+    /** Font size as a fraction of the frame height. */
+    size: number;
+    color: string;
+    outlineColor: string;
+    /** Positions in the frame order (0-based, inclusive) the caption shows on; `null` shows it on every frame. */
+    frameRange: { start: number; end: number } | null;
+}
+
+/** What an overlay draws: an emoji glyph, one of the bundled preset faces, or a PNG the user uploaded (as a data URL). */
+export type OverlaySource =
+    | { kind: 'emoji'; emoji: string }
+    | { kind: 'preset'; src: string }
+    | { kind: 'upload'; src: string };
+
+/** Where an overlay sits on a frame. */
+export interface OverlayTransform {
+    /** Centre of the overlay as fractions of the frame width and height. */
+    x: number;
+    y: number;
+    /** Overlay width as a fraction of the frame width. */
+    scale: number;
+    /** Clockwise rotation in degrees. */
+    rotation: number;
+}
+
+/** A placement pinned to one position in the frame order. */
+export interface OverlayKeyframe extends OverlayTransform {
+    position: number;
+}
+
+/** A sticker drawn over the animation, like captions kept off the sprite sheet. */
+export interface Overlay {
+    id: string;
+    source: OverlaySource;
+    transform: OverlayTransform;
+    /** When set, the overlay moves between these placements; `null` keeps it at `transform` on every frame. */
+    keyframes: OverlayKeyframe[] | null;
+}
+
+export type WatermarkCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export type ExportFormat = 'gif' | VideoFormat;
+
+/** Output settings shared by Export and Share. */
+export interface ExportSettings {
+    format: ExportFormat;
+    /** Width and height of the exported frames in pixels. */
+    size: number;
+    /** Times the sequence repeats in a video. GIFs loop forever on their own, unless the loop mode is 'Play once'. */
+    loopCount: number;
+    /** Video bitrate in bits per second. */
+    bitrate: number;
+    /** GIF palette size, from 2 to 256. */
+    gifColors: number;
+    gifPalette: GifPaletteMode;
+    dither: boolean;
+    /** Keep transparent pixels transparent in GIFs instead of matching them to a colour. */
+    transparent: boolean;
+    /** Largest file to produce, in kilobytes. GIFs lose colours and size to fit; videos get a lower bitrate. `null` means no limit. */
+    targetSizeKb: number | null;
+    /** Frames shorter than this rate allows are merged into their neighbours; `null` keeps every frame. */
+    maxFrameRate: number | null;
+    /** Longest the exported animation may run, in milliseconds. Longer animations are sped up to fit. */
+    maxDurationMs: number | null;
+}
+
+/** Where a creation's first version came from. */
+export type CreationSource = 'generated' | 'imported';
+
+/** One result in a creation's refinement history. */
+export interface CreationVersion {
+    id: string;
+    assets: AnimationAssets;
+    /** The follow-up instruction that produced this version; absent for the first generation. */
+    instruction?: string;
+    /** The version that was refined to make this one. */
+    parentId?: string;
+    createdAt: string;
+}
+
 export interface Creation {
     id: string;
+    /** The version currently shown. */
     assets: AnimationAssets;
     prompt: string;
+    /** Missing on creations saved before styles were selectable; those used the charcoal sketch style. */
+    styleId?: ArtStyleId;
+    /** Every version in the order it was made. Missing on creations saved before refinement existed. */
+    versions?: CreationVersion[];
+    /** The resized photo the animation was made from, sent again when refining. */
+    referenceImage?: InlineImage;
+    /** Shared across versions, so refining the animation keeps the captions. */
+    captions?: Caption[];
+    overlays?: Overlay[];
+    /** Corner the team handle watermark is drawn in; absent when it's off. */
+    watermark?: WatermarkCorner;
+    /** Shared by creations kept from the same multi-variant run. */
+    variantGroupId?: string;
+    /** Missing on creations saved before importing existed, which were all generated. */
+    source?: CreationSource;
+    /** The bundled SBF photo the animation was made from; absent for uploads and imports. */
+    sourcePreset?: string;
+    /** Lower-case labels the user added in the gallery. */
+    tags?: string[];
+    favorite?: boolean;
+}
+
+/** An image kept as its own blob in storage, apart from the metadata that points at it. */
+export interface StoredImage {
+    imageId: string;
+    mimeType: string;
+}
+
+export type StoredAnimationAssets = Omit<AnimationAssets, 'imageData'> & { imageData: StoredImage };
+
+export interface StoredCreationVersion extends Omit<CreationVersion, 'assets'> {
+    assets: StoredAnimationAssets;
+}
+
+/** A saved creation with its sprite sheets and photo moved out to blobs, so listing the collection stays cheap. */
+export interface CreationRecord extends Omit<Creation, 'assets' | 'versions' | 'referenceImage'> {
+    assets: StoredAnimationAssets;
+    versions?: StoredCreationVersion[];
+    referenceImage?: StoredImage;
 }
\ No newline at end of file